@@ -0,0 +1,74 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from "discord.js";
+import { type GroupStrategy } from "../models/classroom.js";
+import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
+
+// Human-readable descriptions of each strategy, shown in the reply
+const STRATEGY_DESCRIPTIONS: Record<GroupStrategy, string> = {
+  balanced: "shuffled everyone into evenly sized groups",
+  fill: "filled the groups one after another in enrollment order",
+  keep: "kept existing members together and spread the rest over the smallest groups",
+};
+
+export const assignGroupsCommand = {
+  data: new SlashCommandBuilder()
+    .setName("assign-groups")
+    .setDescription(
+      "Automatically assign all students of this classroom to groups",
+    )
+    .addStringOption((option) =>
+      option
+        .setName("strategy")
+        .setDescription("How students should be assigned")
+        .addChoices(
+          { name: "Balanced random shuffle", value: "balanced" },
+          { name: "Fill groups in order", value: "fill" },
+          { name: "Keep existing members together", value: "keep" },
+        )
+        .setRequired(true),
+    ),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    try {
+      const context = await resolveClassroom(interaction, "instructor");
+      if (!context) {
+        return;
+      }
+      const { classroom } = context;
+
+      if (classroom.groups < 2) {
+        return await interaction.reply({
+          content: "This classroom only has one group.",
+          flags: "Ephemeral",
+        });
+      }
+
+      const strategy = interaction.options.getString(
+        "strategy",
+        true,
+      ) as GroupStrategy;
+      const { moved, unassigned } = classroom.assignGroups(
+        strategy,
+        interaction.user.id,
+      );
+
+      logger.command(
+        `${interaction.user.tag} assigned groups in ${classroom.name} using "${strategy}" strategy`,
+      );
+
+      let content = `Assigned ${classroom.students.size} student${classroom.students.size !== 1 ? "s" : ""}: ${STRATEGY_DESCRIPTIONS[strategy]}. ${moved} student${moved !== 1 ? "s" : ""} changed group.`;
+      if (unassigned > 0) {
+        content += `\n${unassigned} student${unassigned !== 1 ? "s" : ""} could not be placed because all groups are full (max ${classroom.maxGroupSize} per group).`;
+      }
+
+      await interaction.reply({ content, flags: "Ephemeral" });
+    } catch (error) {
+      logger.command(`Error in assign-groups command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while assigning groups.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
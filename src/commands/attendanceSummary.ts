@@ -0,0 +1,56 @@
+import { CommandInteraction, SlashCommandBuilder } from "discord.js";
+import { createAttendanceEmbed } from "../utils/attendance.js";
+import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
+
+export const attendanceSummaryCommand = {
+  data: new SlashCommandBuilder()
+    .setName("attendance-summary")
+    .setDescription(
+      "Show who attended the latest session and attendance across all sessions",
+    ),
+
+  async execute(interaction: CommandInteraction) {
+    try {
+      const context = await resolveClassroom(interaction, "ta");
+      if (!context) {
+        return;
+      }
+      const { classroom } = context;
+
+      const latest = classroom.attendance.list.at(-1);
+      if (!latest) {
+        return await interaction.reply({
+          content: "No attendance has been taken in this classroom yet.",
+          flags: "Ephemeral",
+        });
+      }
+
+      // One line per session, so trends across the course are visible at a glance
+      const history = classroom.attendance.list
+        .map((session) => {
+          const summary = classroom.attendance.getSummary(session.id)!;
+          return `- <t:${Math.floor(session.startTime.getTime() / 1000)}:d>: ${summary.onTime.length} on time, ${summary.late.length} late`;
+        })
+        .slice(-10)
+        .join("\n");
+
+      const embed = createAttendanceEmbed(classroom, latest).addFields({
+        name: "Sessions",
+        value: history,
+      });
+
+      logger.command(
+        `${interaction.user.tag} viewed the attendance summary of ${classroom.name}`,
+      );
+      await interaction.reply({ embeds: [embed], flags: "Ephemeral" });
+    } catch (error) {
+      logger.command(`Error in attendance-summary command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while retrieving attendance.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
@@ -7,7 +7,13 @@ import {
   UserSelectMenuInteraction,
 } from "discord.js";
 import { classrooms } from "../models/classroom.js";
+import { formatSections } from "../utils/format.js";
 import logger from "../utils/logger.js";
+import {
+  getPermissionDeniedMessage,
+  hasClassroomRole,
+  resolveClassroom,
+} from "../utils/permissions.js";
 
 export const checkStatusCommand = {
   data: new SlashCommandBuilder()
@@ -16,30 +22,11 @@ export const checkStatusCommand = {
 
   async execute(interaction: CommandInteraction) {
     try {
-      // Validate context: command must be run in a thread representing a classroom
-      if (!interaction.channel || !interaction.channel.isThread()) {
-        logger.command(
-          `${interaction.user.tag} attempted to use check-status outside of a thread`,
-        );
-        return await interaction.reply({
-          content: "This command can only be used in classroom threads.",
-          flags: "Ephemeral",
-        });
-      }
-
-      const threadId = interaction.channel.id;
-      const classroom = classrooms.get(threadId);
-
-      // Validate that the thread is a registered classroom
-      if (!classroom) {
-        logger.command(
-          `${interaction.user.tag} attempted to use check-status in a non-classroom thread`,
-        );
-        return await interaction.reply({
-          content: "This thread is not a registered classroom.",
-          flags: "Ephemeral",
-        });
+      const context = await resolveClassroom(interaction, "ta");
+      if (!context) {
+        return;
       }
+      const { thread, classroom } = context;
 
       // Check if there are any students to display
       if (classroom.students.size === 0) {
@@ -55,7 +42,7 @@ export const checkStatusCommand = {
       // Create a user select menu for choosing a student
       const row = new ActionRowBuilder<UserSelectMenuBuilder>().addComponents(
         new UserSelectMenuBuilder()
-          .setCustomId(`check_student_status:${threadId}`)
+          .setCustomId(`check_student_status:${thread.id}`)
           .setPlaceholder("Select a student to check")
           .setMinValues(1)
           .setMaxValues(1),
@@ -105,6 +92,16 @@ export async function handleStudentStatusSelect(
       });
     }
 
+    if (!hasClassroomRole(interaction, classroom, "ta")) {
+      logger.interaction(
+        `${interaction.user.tag} attempted to check student status without permission`,
+      );
+      return await interaction.update({
+        content: getPermissionDeniedMessage("ta"),
+        components: [],
+      });
+    }
+
     // Get the selected student's ID from the interaction values
     const studentId = interaction.values[0];
     const student = classroom.students.get(studentId);
@@ -127,34 +124,83 @@ export async function handleStudentStatusSelect(
       .setTimestamp();
 
     // Build the description with student details
-    let description = `**Group:** ${student.group || "Not assigned"}\n\n`;
-
-    // Add current lab status if a lab is active
-    if (classroom.activeLabSession) {
-      const completed = student.completedLabs.has(
-        classroom.activeLabSession.id,
+    let details = student.studentNumber
+      ? `**Roster:** ${student.realName} (${student.studentNumber})\n`
+      : "";
+    details += `**Group:** ${student.group ? classroom.getGroupName(student.group) : "Not assigned"}${student.group && classroom.groupLeaders.get(student.group) === student.id ? " (leader)" : ""}`;
+    const sections = [details];
+
+    // Show the latest group changes, as switches affect per-group stats
+    if (student.groupHistory.length > 1) {
+      sections.push(
+        `**Group Changes:**\n` +
+          student.groupHistory
+            .slice(-5)
+            .map(
+              (change) =>
+                `- ${change.from ? classroom.getGroupName(change.from) : "None"} → ${change.to ? classroom.getGroupName(change.to) : "None"} <t:${Math.floor(change.at.getTime() / 1000)}:R>${change.by ? ` by <@${change.by}>` : ""}`,
+            )
+            .join("\n"),
       );
-      description += `**Current Lab (${classroom.activeLabSession.name}):** ${completed ? "✅ Completed" : "❌ Not completed"}\n\n`;
-    } else {
-      description += "**No active lab session.**\n\n";
     }
 
-    // Add completion history summary
-    if (student.completedLabs.size > 0) {
-      description += "**Completed Labs:**\n";
-      let completedCount = 0;
-
-      // Count completed labs
-      student.completedLabs.forEach(() => {
-        completedCount++;
-      });
-
-      description += `Total completed: ${completedCount}`;
+    // List every lab of this classroom with the student's result
+    const labs = classroom.labs;
+    if (labs.length > 0) {
+      const completedCount = labs.filter((lab) =>
+        student.completedLabs.has(lab.id),
+      ).length;
+
+      sections.push(
+        "**Labs:**\n" +
+          labs
+            .map((lab) => {
+              const completed = student.completedLabs.has(lab.id);
+              const pending = classroom
+                .getPendingSubmissions()
+                .some(
+                  (submission) =>
+                    submission.labId === lab.id &&
+                    submission.studentId === student.id,
+                );
+              const status = completed ? "✅" : pending ? "⏳" : "❌";
+              const active =
+                lab === classroom.activeLabSession ? " (active)" : "";
+              const late = student.completedLabs.get(lab.id)?.late
+                ? " (late)"
+                : "";
+              const completedBy = student.completedLabs.get(
+                lab.id,
+              )?.completedBy;
+              const byTeammate = completedBy ? ` (by <@${completedBy}>)` : "";
+              const override = classroom.overrides.getLatest(
+                student.id,
+                lab.id,
+              );
+              const overrideInfo = override
+                ? ` (${override.action === "mark" ? "marked" : "unmarked"} by <@${override.by}>: ${override.reason})`
+                : "";
+              const progress =
+                lab.steps && !completed
+                  ? ` (${student.labProgress.get(lab.id) ?? 0}/${lab.steps.length} checkpoints)`
+                  : "";
+              const attempts = student.failedAttempts.get(lab.id)?.length ?? 0;
+              const pattern = classroom.getAttemptPattern(student.id, lab.id);
+              const attemptInfo =
+                attempts > 0
+                  ? ` (${attempts} wrong attempt${attempts !== 1 ? "s" : ""}${pattern ? `, ${pattern}` : ""})`
+                  : "";
+              return `${status} ${lab.name}${active}${late}${byTeammate}${overrideInfo}${progress}${attemptInfo}`;
+            })
+            .join("\n"),
+      );
+      sections.push(`Total completed: ${completedCount}/${labs.length}`);
     } else {
-      description += "**Completed Labs:** None";
+      sections.push("**No labs have been run in this classroom yet.**");
     }
 
-    embed.setDescription(description);
+    // Cut long lab lists so that the description always fits the embed
+    embed.setDescription(formatSections(sections));
 
     logger.interaction(
       `Successfully displayed status for student ${student.name} in classroom ${classroom.name}`,
@@ -0,0 +1,177 @@
+import {
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from "discord.js";
+import { type StaffRole } from "../models/classroom.js";
+import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
+
+export const classroomStaffCommand = {
+  data: new SlashCommandBuilder()
+    .setName("classroom-staff")
+    .setDescription("Manage the instructors and TAs of this classroom")
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("add")
+        .setDescription("Add a co-instructor or TA to this classroom")
+        .addUserOption((option) =>
+          option
+            .setName("user")
+            .setDescription("The member to add")
+            .setRequired(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("role")
+            .setDescription("The role to grant")
+            .addChoices(
+              { name: "Instructor", value: "instructor" },
+              { name: "TA", value: "ta" },
+            )
+            .setRequired(true),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("remove")
+        .setDescription("Remove a co-instructor or TA from this classroom")
+        .addUserOption((option) =>
+          option
+            .setName("user")
+            .setDescription("The member to remove")
+            .setRequired(true),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("set-owner")
+        .setDescription(
+          "Hand this classroom over to a new owner, keeping the current one as instructor",
+        )
+        .addUserOption((option) =>
+          option
+            .setName("user")
+            .setDescription("The new owner")
+            .setRequired(true),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("list")
+        .setDescription("List the staff of this classroom"),
+    ),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    try {
+      const subcommand = interaction.options.getSubcommand();
+
+      // Listing is open to all staff, changing the staff is for instructors
+      // and changing the owner for the owner, or a server administrator for classrooms without one
+      const context = await resolveClassroom(
+        interaction,
+        subcommand === "list"
+          ? "ta"
+          : subcommand === "set-owner"
+            ? "owner"
+            : "instructor",
+      );
+      if (!context) {
+        return;
+      }
+      const { classroom } = context;
+
+      if (subcommand === "add") {
+        const user = interaction.options.getUser("user", true);
+        const role = interaction.options.getString("role", true) as StaffRole;
+
+        if (user.bot || !classroom.addStaff(user.id, role)) {
+          return await interaction.reply({
+            content: `${user} cannot be added as staff.`,
+            flags: "Ephemeral",
+          });
+        }
+
+        logger.command(
+          `${interaction.user.tag} added ${user.tag} as ${role} in ${classroom.name}`,
+        );
+        return await interaction.reply({
+          content: `Added ${user} as ${role === "ta" ? "a TA" : "an instructor"} of this classroom.`,
+          flags: "Ephemeral",
+        });
+      }
+
+      if (subcommand === "set-owner") {
+        const user = interaction.options.getUser("user", true);
+
+        if (user.bot || !classroom.setOwner(user.id)) {
+          return await interaction.reply({
+            content: `${user} cannot be made the owner.`,
+            flags: "Ephemeral",
+          });
+        }
+
+        logger.command(
+          `${interaction.user.tag} made ${user.tag} the owner of ${classroom.name}`,
+        );
+        return await interaction.reply({
+          content: `${user} now owns this classroom.`,
+          flags: "Ephemeral",
+        });
+      }
+
+      if (subcommand === "remove") {
+        const user = interaction.options.getUser("user", true);
+
+        if (!classroom.removeStaff(user.id)) {
+          return await interaction.reply({
+            content: `${user} is not a co-instructor or TA of this classroom.`,
+            flags: "Ephemeral",
+          });
+        }
+
+        logger.command(
+          `${interaction.user.tag} removed ${user.tag} from staff in ${classroom.name}`,
+        );
+        return await interaction.reply({
+          content: `Removed ${user} from the staff of this classroom.`,
+          flags: "Ephemeral",
+        });
+      }
+
+      // List the owner first, then instructors, then TAs
+      const mentions = (role: StaffRole) =>
+        classroom.staff
+          .filter((staffRole) => staffRole === role)
+          .map((_, userId) => `<@${userId}>`)
+          .join(", ") || "None";
+
+      const embed = new EmbedBuilder()
+        .setTitle(`Staff: ${classroom.name}`)
+        .addFields(
+          {
+            name: "Owner",
+            value: classroom.ownerId
+              ? `<@${classroom.ownerId}>`
+              : "None, a server administrator can assign one with `/classroom-staff set-owner`",
+          },
+          { name: "Instructors", value: mentions("instructor") },
+          { name: "TAs", value: mentions("ta") },
+        )
+        .setColor("#0099FF")
+        .setTimestamp();
+
+      logger.command(
+        `${interaction.user.tag} listed the staff of ${classroom.name}`,
+      );
+      await interaction.reply({ embeds: [embed], flags: "Ephemeral" });
+    } catch (error) {
+      logger.command(`Error in classroom-staff command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while managing the classroom staff.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
@@ -0,0 +1,366 @@
+import {
+  AttachmentBuilder,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+import { classrooms } from "../models/classroom.js";
+import {
+  Course,
+  findCourseByName,
+  findCourseOfClassroom,
+  registerCourse,
+} from "../models/course.js";
+import {
+  createCourseReport,
+  formatCourseReportCsv,
+} from "../utils/courseReport.js";
+import { formatList } from "../utils/format.js";
+import logger from "../utils/logger.js";
+import {
+  getPermissionDeniedMessage,
+  hasClassroomRole,
+} from "../utils/permissions.js";
+
+// Longest course name, matching the longest thread name
+const MAX_COURSE_NAME_LENGTH = 100;
+
+export const courseCommand = {
+  data: new SlashCommandBuilder()
+    .setName("course")
+    .setDescription(
+      "Group the weekly classrooms of a course and report on them",
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("create")
+        .setDescription("Create a course in this server")
+        .addStringOption((option) =>
+          option
+            .setName("name")
+            .setDescription("Name of the course, e.g. Web Development 2025")
+            .setMaxLength(MAX_COURSE_NAME_LENGTH)
+            .setRequired(true),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("add-classroom")
+        .setDescription("Add this classroom as the next session of a course")
+        .addStringOption((option) =>
+          option
+            .setName("course")
+            .setDescription("Name of the course")
+            .setRequired(true),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("remove-classroom")
+        .setDescription("Remove this classroom from the sessions of a course")
+        .addStringOption((option) =>
+          option
+            .setName("course")
+            .setDescription("Name of the course")
+            .setRequired(true),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("report")
+        .setDescription(
+          "Report attendance and lab completion across every session of a course",
+        )
+        .addStringOption((option) =>
+          option
+            .setName("course")
+            .setDescription("Name of the course")
+            .setRequired(true),
+        )
+        .addIntegerOption((option) =>
+          option
+            .setName("min-sessions")
+            .setDescription(
+              "List the students who attended fewer sessions than this",
+            )
+            .setMinValue(1)
+            .setRequired(false),
+        ),
+    ),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    try {
+      if (!interaction.guildId) {
+        return await interaction.reply({
+          content: "Courses can only be used in servers.",
+          flags: "Ephemeral",
+        });
+      }
+
+      const subcommand = interaction.options.getSubcommand();
+      if (subcommand === "create") {
+        return await createCourse(interaction, interaction.guildId);
+      }
+
+      const name = interaction.options.getString("course", true);
+      const course = findCourseByName(interaction.guildId, name);
+      if (!course) {
+        return await interaction.reply({
+          content: `There is no course named "${name}" in this server.`,
+          flags: "Ephemeral",
+        });
+      }
+
+      if (!isCourseManager(interaction, course)) {
+        logger.command(
+          `${interaction.user.tag} attempted to use course ${subcommand} without permission`,
+        );
+        return await interaction.reply({
+          content:
+            "Only the course owner and server administrators can do this.",
+          flags: "Ephemeral",
+        });
+      }
+
+      if (subcommand === "add-classroom") {
+        return await addClassroom(interaction, course);
+      }
+      if (subcommand === "remove-classroom") {
+        return await removeClassroom(interaction, course);
+      }
+      await reportCourse(interaction, course);
+    } catch (error) {
+      logger.command(`Error in course command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while managing the course.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
+
+/**
+ * Checks whether the user of an interaction may change a course and report on it
+ * Only its owner and administrators of its server may, as the report holds every student of the course
+ *
+ * @param interaction - The command interaction
+ * @param course - The course acted on
+ * @returns true if the user is allowed
+ */
+function isCourseManager(
+  interaction: ChatInputCommandInteraction,
+  course: Course,
+): boolean {
+  return (
+    interaction.user.id === course.ownerId ||
+    (course.guildId === interaction.guildId &&
+      !!interaction.memberPermissions?.has(PermissionFlagsBits.Administrator))
+  );
+}
+
+/**
+ * Creates a course owned by the user of the interaction
+ *
+ * @param interaction - The command interaction
+ * @param guildId - The server to create the course in
+ */
+async function createCourse(
+  interaction: ChatInputCommandInteraction,
+  guildId: string,
+) {
+  const name = interaction.options.getString("name", true).trim();
+
+  if (findCourseByName(guildId, name)) {
+    return await interaction.reply({
+      content: `A course named "${name}" already exists in this server.`,
+      flags: "Ephemeral",
+    });
+  }
+
+  registerCourse(
+    new Course(interaction.id, name, interaction.user.id, guildId),
+  );
+
+  logger.command(`${interaction.user.tag} created course ${name}`);
+  await interaction.reply({
+    content: `Created the course **${name}**. Run \`/course add-classroom course:${name}\` in each session's classroom thread to add it.`,
+    flags: "Ephemeral",
+  });
+}
+
+/**
+ * Adds the classroom of the current thread to a course
+ * The course owner must also be an instructor of the classroom, so nobody adds another's classroom
+ *
+ * @param interaction - The command interaction
+ * @param course - The course to add the classroom to
+ */
+async function addClassroom(
+  interaction: ChatInputCommandInteraction,
+  course: Course,
+) {
+  const classroom = interaction.channel?.isThread()
+    ? classrooms.get(interaction.channel.id)
+    : undefined;
+
+  if (!classroom) {
+    logger.command(
+      `${interaction.user.tag} attempted to use course add-classroom outside of a classroom`,
+    );
+    return await interaction.reply({
+      content: "This command can only be used in classroom threads.",
+      flags: "Ephemeral",
+    });
+  }
+
+  if (!hasClassroomRole(interaction, classroom, "instructor")) {
+    logger.command(
+      `${interaction.user.tag} attempted to use course add-classroom without permission`,
+    );
+    return await interaction.reply({
+      content: getPermissionDeniedMessage("instructor"),
+      flags: "Ephemeral",
+    });
+  }
+
+  const existing = findCourseOfClassroom(classroom.id);
+  if (existing) {
+    return await interaction.reply({
+      content: `This classroom is already a session of **${existing.name}**.`,
+      flags: "Ephemeral",
+    });
+  }
+
+  course.addClassroom(classroom.id);
+
+  logger.command(
+    `${interaction.user.tag} added ${classroom.name} to course ${course.name}`,
+  );
+  await interaction.reply({
+    content: `Added this classroom as session ${course.classroomIds.length} of **${course.name}**.`,
+    flags: "Ephemeral",
+  });
+}
+
+/**
+ * Removes the classroom of the current thread from a course
+ *
+ * @param interaction - The command interaction
+ * @param course - The course to remove the classroom from
+ */
+async function removeClassroom(
+  interaction: ChatInputCommandInteraction,
+  course: Course,
+) {
+  const classroomId = interaction.channel?.isThread()
+    ? interaction.channel.id
+    : undefined;
+
+  if (!classroomId || !course.removeClassroom(classroomId)) {
+    logger.command(
+      `${interaction.user.tag} attempted to use course remove-classroom outside of a session of ${course.name}`,
+    );
+    return await interaction.reply({
+      content: `This command can only be used in the classroom threads of **${course.name}**.`,
+      flags: "Ephemeral",
+    });
+  }
+
+  logger.command(
+    `${interaction.user.tag} removed ${classroomId} from course ${course.name}`,
+  );
+  await interaction.reply({
+    content: `Removed this classroom from **${course.name}**, which now has ${course.classroomIds.length} session${course.classroomIds.length !== 1 ? "s" : ""}.`,
+    flags: "Ephemeral",
+  });
+}
+
+/**
+ * Replies with a summary of a course and a CSV with every student's attendance and completions
+ *
+ * @param interaction - The command interaction
+ * @param course - The course to report on
+ */
+async function reportCourse(
+  interaction: ChatInputCommandInteraction,
+  course: Course,
+) {
+  const report = createCourseReport(course);
+  const sessionCount = report.sessions.length;
+  const studentCount = report.students.length;
+
+  if (sessionCount === 0) {
+    return await interaction.reply({
+      content: `**${course.name}** has no classrooms yet.`,
+      flags: "Ephemeral",
+    });
+  }
+
+  const completions = report.students.reduce(
+    (total, student) => total + student.labsCompleted,
+    0,
+  );
+  const completionRate =
+    Math.round((completions / (studentCount * report.totalLabs)) * 100) || 0;
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Course Report: ${course.name}`)
+    .setDescription(
+      `**Sessions:** ${sessionCount}\n` +
+        `**Students:** ${studentCount}\n` +
+        `**Labs:** ${report.totalLabs}\n` +
+        `**Cumulative lab completion:** ${completions}/${studentCount * report.totalLabs} (${completionRate}%)`,
+    )
+    .addFields({
+      name: "Sessions",
+      value: formatList(
+        report.sessions.map((session, index) => {
+          const attended = report.students.filter(
+            (student) => student.attendance[index] !== "absent",
+          ).length;
+          return `${index + 1}. ${session.name}: ${attended} attended${session.tookAttendance ? "" : " (joined, no attendance taken)"}, ${session.labs} lab${session.labs !== 1 ? "s" : ""}`;
+        }),
+        1024,
+      ),
+    })
+    .setColor("#0099FF")
+    .setTimestamp();
+
+  const minSessions = interaction.options.getInteger("min-sessions");
+  if (minSessions !== null) {
+    const below = report.students.filter(
+      (student) => student.sessionsAttended < minSessions,
+    );
+    embed.addFields({
+      name: `Attended fewer than ${minSessions} of ${sessionCount} sessions (${below.length})`,
+      value:
+        below.length > 0
+          ? formatList(
+              below.map(
+                (student) =>
+                  `- ${student.realName ? `${student.realName} (${student.name})` : student.name}: ${student.sessionsAttended}/${sessionCount}`,
+              ),
+              1024,
+            )
+          : "Nobody, every student reached it.",
+    });
+  }
+
+  logger.command(
+    `${interaction.user.tag} reported on course ${course.name} (${sessionCount} session(s), ${studentCount} student(s))`,
+  );
+  await interaction.reply({
+    embeds: [embed],
+    files: [
+      new AttachmentBuilder(
+        Buffer.from(formatCourseReportCsv(report), "utf8"),
+        {
+          name: `${course.name.replace(/[^\w-]+/g, "-")}-report-${new Date().toISOString().slice(0, 10)}.csv`,
+        },
+      ),
+    ],
+    flags: "Ephemeral",
+  });
+}
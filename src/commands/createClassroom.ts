@@ -7,27 +7,128 @@ import {
   SlashCommandBuilder,
   ThreadChannel,
 } from "discord.js";
-import { Classroom, classrooms } from "../models/classroom.js";
+import {
+  Classroom,
+  registerClassroom,
+  type GroupSpaceType,
+} from "../models/classroom.js";
 import { createAutoUpdateMessage } from "../utils/autoUpdateMessage.js";
+import { createGroupSpaces } from "../utils/groupSpaces.js";
 import logger from "../utils/logger.js";
 
+// Discord limits thread names to 100 characters
+const MAX_TITLE_LENGTH = 100;
+
+// Keep group names short enough for the "Join <name>" button labels
+const MAX_GROUP_NAME_LENGTH = 30;
+
+const MAX_GROUP_COUNT = 10;
+
 export const createClassroomCommand = {
   data: new SlashCommandBuilder()
     .setName("create-classroom")
     .setDescription("Creates a new classroom thread")
+    .addStringOption((option) =>
+      option
+        .setName("title")
+        .setDescription("Title of the classroom, used as the thread name")
+        .setMaxLength(MAX_TITLE_LENGTH)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("description")
+        .setDescription("Description shown in the welcome message")
+        .setMaxLength(1000)
+        .setRequired(false),
+    )
     .addIntegerOption((option) =>
       option
         .setName("group-count")
         .setDescription("Number of groups to create")
         .setMinValue(1)
-        .setMaxValue(10)
+        .setMaxValue(MAX_GROUP_COUNT)
+        .setRequired(false),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("max-group-size")
+        .setDescription("Maximum number of students per group")
+        .setMinValue(1)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("group-spaces")
+        .setDescription(
+          "Private space to create for each group (default: thread when there are several groups)",
+        )
+        .addChoices(
+          { name: "Private thread", value: "thread" },
+          { name: "Voice channel", value: "voice" },
+          { name: "None", value: "none" },
+        )
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("group-names")
+        .setDescription(
+          'Comma-separated group names, e.g. "Frontend, Backend" (default: Group 1..N)',
+        )
         .setRequired(false),
     ),
 
   async execute(interaction: CommandInteraction) {
     try {
+      const title = (
+        interaction.options.get("title")?.value as string | undefined
+      )?.trim();
+      const description = (
+        interaction.options.get("description")?.value as string | undefined
+      )?.trim();
+
+      // Parse the group names, which also set the group count if it is not given
+      const groupNames = (
+        (interaction.options.get("group-names")?.value as string) || ""
+      )
+        .split(",")
+        .map((name) => name.trim())
+        .filter((name) => name.length > 0);
       const groupCount =
-        (interaction.options.get("group-count")?.value as number) || 1;
+        (interaction.options.get("group-count")?.value as number) ||
+        groupNames.length ||
+        1;
+
+      if (groupNames.length > groupCount) {
+        return await interaction.reply({
+          content: `You gave ${groupNames.length} group names for ${groupCount} group${groupCount !== 1 ? "s" : ""}.`,
+          flags: "Ephemeral",
+        });
+      }
+      if (groupNames.length > MAX_GROUP_COUNT) {
+        return await interaction.reply({
+          content: `A classroom can have at most ${MAX_GROUP_COUNT} groups.`,
+          flags: "Ephemeral",
+        });
+      }
+      const longName = groupNames.find(
+        (name) => name.length > MAX_GROUP_NAME_LENGTH,
+      );
+      if (longName) {
+        return await interaction.reply({
+          content: `Group names can be at most ${MAX_GROUP_NAME_LENGTH} characters long: "${longName}".`,
+          flags: "Ephemeral",
+        });
+      }
+      const maxGroupSize = interaction.options.get("max-group-size")?.value as
+        | number
+        | undefined;
+      const groupSpaces =
+        (interaction.options.get("group-spaces")?.value as
+          | GroupSpaceType
+          | "none"
+          | undefined) ?? (groupCount > 1 ? "thread" : "none");
 
       // Create a new thread for the classroom
       if (!interaction.channel || !("threads" in interaction.channel)) {
@@ -38,7 +139,8 @@ export const createClassroomCommand = {
         });
       }
 
-      const threadName = `Classroom-${new Date().toLocaleDateString()}`;
+      const threadName =
+        title || `Classroom-${new Date().toLocaleDateString()}`;
 
       // Create the thread
       const thread = await (interaction.channel as any).threads.create({
@@ -55,8 +157,17 @@ export const createClassroomCommand = {
       }
 
       // Create a new classroom instance
-      const classroom = new Classroom(thread.id, threadName, groupCount);
-      classrooms.set(thread.id, classroom);
+      const classroom = new Classroom(
+        thread.id,
+        threadName,
+        groupCount,
+        interaction.user.id,
+      );
+      classroom.guildId = interaction.guildId ?? undefined;
+      classroom.description = description;
+      classroom.groupNames = groupNames;
+      classroom.maxGroupSize = maxGroupSize;
+      registerClassroom(classroom);
 
       // Create join buttons for each group
       const rows: ActionRowBuilder<ButtonBuilder>[] = [];
@@ -70,7 +181,7 @@ export const createClassroomCommand = {
           row.addComponents(
             new ButtonBuilder()
               .setCustomId(`join_group:${groupNum}:${thread.id}`)
-              .setLabel(`Join Group ${groupNum}`)
+              .setLabel(`Join ${classroom.getGroupName(groupNum)}`)
               .setStyle(ButtonStyle.Primary),
           );
         }
@@ -80,14 +191,30 @@ export const createClassroomCommand = {
 
       // Send a welcome message to the thread
       await thread.send({
-        content: `Welcome to the classroom! This classroom has ${groupCount} group${groupCount > 1 ? "s" : ""}. Students, please join a group:`,
+        content: `${description ? `${description}\n\n` : ""}Welcome to the classroom! This classroom has ${groupCount} group${groupCount > 1 ? "s" : ""}${maxGroupSize ? ` of up to ${maxGroupSize} students each` : ""}. Students, please join a group:`,
         components: rows,
       });
 
+      // Create the private group spaces, students are added as they join a group
+      let spacesNote = "";
+      if (groupSpaces !== "none") {
+        try {
+          classroom.setGroupSpaces(
+            groupSpaces,
+            await createGroupSpaces(classroom, thread, groupSpaces),
+          );
+          spacesNote = `\nCreated a private ${groupSpaces === "thread" ? "thread" : "voice channel"} for each group.`;
+        } catch (error) {
+          logger.command(`Failed to create group spaces: %O`, error);
+          spacesNote =
+            "\n⚠️ Failed to create the group spaces, please check the bot's permissions.";
+        }
+      }
+
       // Use auto-updating message for live join status
       await createAutoUpdateMessage({
         interaction,
-        content: `Classroom created successfully: ${thread.toString()}\nStudent enrollment will update every 30 seconds and immediately when students join.`,
+        content: `Classroom created successfully: ${thread.toString()}${spacesNote}\nStudent enrollment will update every 30 seconds and immediately when students join.`,
         generateEmbed: () => createClassroomStatusEmbed(classroom),
         timeLimit: 15 * 60 * 1000, // 15 minutes
         classroom: classroom, // Pass classroom to listen for state changes
@@ -110,7 +237,11 @@ function createClassroomStatusEmbed(classroom: Classroom): EmbedBuilder {
     .setColor("#0099FF")
     .setTimestamp();
 
-  let description = `**Total Students:** ${classroom.students.size}\n\n`;
+  let description = `**Total Students:** ${classroom.students.size}\n`;
+  if (classroom.groupsLocked) {
+    description += "🔒 Groups are locked\n";
+  }
+  description += "\n";
 
   // No students yet
   if (classroom.students.size === 0) {
@@ -126,7 +257,10 @@ function createClassroomStatusEmbed(classroom: Classroom): EmbedBuilder {
         (student) => student.group === i,
       );
 
-      description += `**Group ${i}:** ${groupStudents.length} student${groupStudents.length !== 1 ? "s" : ""}\n`;
+      const capacity = classroom.maxGroupSize
+        ? `/${classroom.maxGroupSize}`
+        : "";
+      description += `**${classroom.getGroupName(i)}:** ${groupStudents.length}${capacity} student${groupStudents.length !== 1 ? "s" : ""}\n`;
 
       if (groupStudents.length > 0) {
         description +=
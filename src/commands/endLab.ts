@@ -0,0 +1,83 @@
+import {
+  CommandInteraction,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from "discord.js";
+import { formatDuration } from "../utils/format.js";
+import { closeLabMessage } from "../utils/labMessage.js";
+import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
+
+export const endLabCommand = {
+  data: new SlashCommandBuilder()
+    .setName("end-lab")
+    .setDescription("End the active lab session in the current classroom"),
+
+  async execute(interaction: CommandInteraction) {
+    try {
+      const context = await resolveClassroom(interaction, "instructor");
+      if (!context) {
+        return;
+      }
+      const { thread, classroom } = context;
+
+      if (!classroom.activeLabSession) {
+        logger.command(
+          `${interaction.user.tag} attempted to use end-lab with no active lab`,
+        );
+        return await interaction.reply({
+          content: "There is no active lab session in this classroom.",
+          flags: "Ephemeral",
+        });
+      }
+
+      const lab = classroom.endLab();
+      await closeLabMessage(thread, lab);
+
+      logger.command(
+        `${interaction.user.tag} ended lab "${lab.name}" in ${classroom.name}`,
+      );
+
+      const totalStudents = classroom.students.size;
+      const completedStudents = classroom.countCompletions(lab.id);
+      const durationMinutes = Math.round(
+        (lab.endTime!.getTime() - lab.startTime.getTime()) / 60000,
+      );
+
+      let description =
+        `**Duration:** ${durationMinutes} minute${durationMinutes !== 1 ? "s" : ""}\n` +
+        `**Completion Status:** ${completedStudents}/${totalStudents} students (${Math.round((completedStudents / totalStudents) * 100) || 0}%)`;
+
+      if (lab.lockedGroups) {
+        description += `\n🔓 Groups locked by this lab are unlocked again.`;
+      }
+
+      // Report how quickly TAs responded to raised hands
+      const helpStats = classroom.getHelpStats(lab.id);
+      if (helpStats.total > 0) {
+        description += `\n**Help Requests:** ${helpStats.resolved}/${helpStats.total} resolved`;
+        if (helpStats.averageWaitMs !== null) {
+          description += `\n**Avg. Wait Time:** ${formatDuration(helpStats.averageWaitMs)}`;
+        }
+        if (helpStats.averageResolutionMs !== null) {
+          description += `\n**Avg. Resolution Time:** ${formatDuration(helpStats.averageResolutionMs)}`;
+        }
+      }
+
+      const embed = new EmbedBuilder()
+        .setTitle(`Lab Ended: ${lab.name}`)
+        .setDescription(description)
+        .setColor("#808080")
+        .setTimestamp();
+
+      await interaction.reply({ embeds: [embed] });
+    } catch (error) {
+      logger.command(`Error ending lab session: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while ending the lab session.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
@@ -3,9 +3,10 @@ import {
   EmbedBuilder,
   SlashCommandBuilder,
 } from "discord.js";
-import { classrooms, type Classroom } from "../models/classroom.js";
+import { type Classroom } from "../models/classroom.js";
 import { createAutoUpdateMessage } from "../utils/autoUpdateMessage.js";
 import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
 
 export const enrollmentStatusCommand = {
   data: new SlashCommandBuilder()
@@ -22,30 +23,11 @@ export const enrollmentStatusCommand = {
 
   async execute(interaction: CommandInteraction) {
     try {
-      // Ensure this is being run in a thread
-      if (!interaction.channel || !interaction.channel.isThread()) {
-        logger.command(
-          `${interaction.user.tag} attempted to use enrollment-status outside of a thread`,
-        );
-        return await interaction.reply({
-          content: "This command can only be used in classroom threads.",
-          flags: "Ephemeral",
-        });
-      }
-
-      const threadId = interaction.channel.id;
-      const classroom = classrooms.get(threadId);
-
-      // Validate that the thread is a registered classroom
-      if (!classroom) {
-        logger.command(
-          `${interaction.user.tag} attempted to use enrollment-status in a non-classroom thread`,
-        );
-        return await interaction.reply({
-          content: "This thread is not a registered classroom.",
-          flags: "Ephemeral",
-        });
+      const context = await resolveClassroom(interaction, "ta");
+      if (!context) {
+        return;
       }
+      const { classroom } = context;
 
       // Get the requested update time (default to 15 minutes if not specified)
       const updateTimeMinutes =
@@ -88,7 +70,11 @@ function createClassroomStatusEmbed(classroom: Classroom): EmbedBuilder {
     .setColor("#0099FF")
     .setTimestamp();
 
-  let description = `**Total Students:** ${classroom.students.size}\n\n`;
+  let description = `**Total Students:** ${classroom.students.size}\n`;
+  if (classroom.groupsLocked) {
+    description += "🔒 Groups are locked\n";
+  }
+  description += "\n";
 
   // No students yet
   if (classroom.students.size === 0) {
@@ -104,7 +90,10 @@ function createClassroomStatusEmbed(classroom: Classroom): EmbedBuilder {
         (student) => student.group === i,
       );
 
-      description += `**Group ${i}:** ${groupStudents.length} student${groupStudents.length !== 1 ? "s" : ""}\n`;
+      const capacity = classroom.maxGroupSize
+        ? `/${classroom.maxGroupSize}`
+        : "";
+      description += `**${classroom.getGroupName(i)}:** ${groupStudents.length}${capacity} student${groupStudents.length !== 1 ? "s" : ""}\n`;
 
       if (groupStudents.length > 0) {
         description +=
@@ -0,0 +1,106 @@
+import {
+  AttachmentBuilder,
+  CommandInteraction,
+  SlashCommandBuilder,
+} from "discord.js";
+import { findClassroom } from "../models/classroom.js";
+import { createClassroomExport, formatExportCsv } from "../utils/export.js";
+import logger from "../utils/logger.js";
+import {
+  getPermissionDeniedMessage,
+  hasClassroomRole,
+} from "../utils/permissions.js";
+
+export const exportClassroomCommand = {
+  data: new SlashCommandBuilder()
+    .setName("export-classroom")
+    .setDescription(
+      "Export students, groups and lab completions as CSV and JSON files",
+    )
+    .addStringOption((option) =>
+      option
+        .setName("thread-id")
+        .setDescription(
+          "Thread ID of the classroom to export, e.g. an archived one (default: this thread)",
+        )
+        .setRequired(false),
+    ),
+
+  async execute(interaction: CommandInteraction) {
+    try {
+      // Archived classrooms are exported by thread ID, as their thread may be gone
+      const requestedId = (
+        interaction.options.get("thread-id")?.value as string | undefined
+      )?.trim();
+
+      if (
+        !requestedId &&
+        (!interaction.channel || !interaction.channel.isThread())
+      ) {
+        logger.command(
+          `${interaction.user.tag} attempted to use export-classroom outside of a thread`,
+        );
+        return await interaction.reply({
+          content:
+            "This command can only be used in classroom threads, or with a thread ID.",
+          flags: "Ephemeral",
+        });
+      }
+
+      const threadId = requestedId || interaction.channel!.id;
+      const classroom = findClassroom(threadId);
+
+      if (!classroom) {
+        logger.command(
+          `${interaction.user.tag} attempted to use export-classroom for unknown classroom ${threadId}`,
+        );
+        return await interaction.reply({
+          content: requestedId
+            ? "No classroom, active or archived, has this thread ID."
+            : "This thread is not a registered classroom.",
+          flags: "Ephemeral",
+        });
+      }
+
+      if (!hasClassroomRole(interaction, classroom, "ta")) {
+        logger.command(
+          `${interaction.user.tag} attempted to use export-classroom without permission`,
+        );
+        return await interaction.reply({
+          content: getPermissionDeniedMessage("ta"),
+          flags: "Ephemeral",
+        });
+      }
+
+      const data = createClassroomExport(classroom);
+
+      // Name the files after the classroom and date, keeping only safe characters
+      const baseName = `${classroom.name.replace(/[^\w-]+/g, "-")}-${data.exportedAt.slice(0, 10)}`;
+
+      logger.command(
+        `${interaction.user.tag} exported ${data.students.length} student(s) and ${data.labs.length} lab(s) from ${classroom.name}`,
+      );
+
+      await interaction.reply({
+        content: `${classroom.archivedAt ? "📦 Archived classroom. " : ""}Exported ${data.students.length} student${data.students.length !== 1 ? "s" : ""} and ${data.labs.length} lab${data.labs.length !== 1 ? "s" : ""} from ${classroom.name}. The CSV has one row per student and lab.`,
+        files: [
+          new AttachmentBuilder(Buffer.from(formatExportCsv(data), "utf8"), {
+            name: `${baseName}.csv`,
+          }),
+          new AttachmentBuilder(
+            Buffer.from(JSON.stringify(data, null, 2), "utf8"),
+            { name: `${baseName}.json` },
+          ),
+        ],
+        flags: "Ephemeral",
+      });
+    } catch (error) {
+      logger.command(`Error in export-classroom command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while exporting the classroom.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
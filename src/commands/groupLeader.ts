@@ -0,0 +1,73 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from "discord.js";
+import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
+
+export const groupLeaderCommand = {
+  data: new SlashCommandBuilder()
+    .setName("group-leader")
+    .setDescription(
+      "Appoint or remove the leader of a group, who completes group labs for it",
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("group")
+        .setDescription("The group number")
+        .setMinValue(1)
+        .setRequired(true),
+    )
+    .addUserOption((option) =>
+      option
+        .setName("student")
+        .setDescription(
+          "The new leader, a member of the group (omit to remove)",
+        )
+        .setRequired(false),
+    ),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    try {
+      const context = await resolveClassroom(interaction, "instructor");
+      if (!context) {
+        return;
+      }
+      const { classroom } = context;
+
+      const group = interaction.options.getInteger("group", true);
+      const user = interaction.options.getUser("student");
+
+      if (group > classroom.groups) {
+        return await interaction.reply({
+          content: `This classroom only has ${classroom.groups} group${classroom.groups !== 1 ? "s" : ""}.`,
+          flags: "Ephemeral",
+        });
+      }
+
+      const groupName = classroom.getGroupName(group);
+      if (!classroom.setGroupLeader(group, user?.id)) {
+        return await interaction.reply({
+          content: `${user?.username} is not a member of ${groupName}.`,
+          flags: "Ephemeral",
+        });
+      }
+
+      logger.command(
+        `${interaction.user.tag} ${user ? `appointed ${user.tag} as leader of` : "removed the leader of"} ${groupName} in ${classroom.name}`,
+      );
+
+      // Announce in the thread so the group knows who completes group labs for it
+      await interaction.reply({
+        content: user
+          ? `👑 <@${user.id}> now leads ${groupName} and completes group labs for it.`
+          : `${groupName} no longer has a leader.`,
+        allowedMentions: { users: user ? [user.id] : [] },
+      });
+    } catch (error) {
+      logger.command(`Error in group-leader command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while changing the group leader.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
@@ -0,0 +1,177 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  CommandInteraction,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from "discord.js";
+import { classrooms, type Classroom } from "../models/classroom.js";
+import logger from "../utils/logger.js";
+import {
+  getPermissionDeniedMessage,
+  hasClassroomRole,
+  resolveClassroom,
+} from "../utils/permissions.js";
+
+export const groupRequestsCommand = {
+  data: new SlashCommandBuilder()
+    .setName("group-requests")
+    .setDescription("Review pending group switch requests in this classroom"),
+
+  async execute(interaction: CommandInteraction) {
+    try {
+      const context = await resolveClassroom(interaction, "instructor");
+      if (!context) {
+        return;
+      }
+      const { classroom } = context;
+
+      logger.command(
+        `${interaction.user.tag} started reviewing group requests in ${classroom.name}`,
+      );
+      await interaction.reply({
+        ...createGroupRequestMessage(classroom),
+        flags: "Ephemeral",
+      });
+    } catch (error) {
+      logger.command(`Error in group-requests command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while retrieving group requests.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
+
+/**
+ * Creates the review message for the oldest pending group switch request of a classroom
+ *
+ * @param classroom - The classroom whose requests to review
+ * @param notice - Optional line shown above the request, e.g. the result of the previous review
+ * @returns The message content, embeds and components
+ */
+function createGroupRequestMessage(classroom: Classroom, notice?: string) {
+  const pending = classroom.getPendingGroupChanges();
+  const prefix = notice ? `${notice}\n` : "";
+
+  if (pending.length === 0) {
+    return {
+      content: `${prefix}There are no group switch requests waiting for review.`,
+      embeds: [],
+      components: [],
+    };
+  }
+
+  const request = pending[0];
+  const student = classroom.getStudent(request.studentId);
+  const full = classroom.isGroupFull(request.to);
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Group Switch: ${student?.name ?? "Unknown student"}`)
+    .addFields(
+      {
+        name: "From",
+        value: request.from ? classroom.getGroupName(request.from) : "No group",
+        inline: true,
+      },
+      {
+        name: "To",
+        value: `${classroom.getGroupName(request.to)} (${classroom.getGroupSize(request.to)}${classroom.maxGroupSize ? `/${classroom.maxGroupSize}` : ""} students)`,
+        inline: true,
+      },
+      {
+        name: "Requested",
+        value: `<t:${Math.floor(request.requestedAt.getTime() / 1000)}:R>`,
+        inline: true,
+      },
+    )
+    .setColor("#0099FF")
+    .setTimestamp();
+
+  const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`group_request:approve:${request.id}:${classroom.id}`)
+      .setLabel(full ? "Group Full" : "Approve")
+      .setStyle(ButtonStyle.Success)
+      .setDisabled(full),
+    new ButtonBuilder()
+      .setCustomId(`group_request:reject:${request.id}:${classroom.id}`)
+      .setLabel("Reject")
+      .setStyle(ButtonStyle.Danger),
+  );
+
+  return {
+    content: `${prefix}${pending.length} group switch request${pending.length !== 1 ? "s" : ""} waiting for review.`,
+    embeds: [embed],
+    components: [row],
+  };
+}
+
+/**
+ * Handles the Approve and Reject buttons of the group request message
+ * Records the decision and shows the next pending request
+ *
+ * @param interaction - The Discord button interaction object
+ * @param params - Parameters extracted from the button's customId [decision, requestId, threadId]
+ */
+export async function handleGroupRequestButton(
+  interaction: ButtonInteraction,
+  params: string[],
+) {
+  const [decision, requestId, threadId] = params;
+  const classroom = classrooms.get(threadId);
+
+  if (!classroom) {
+    logger.interaction(`Classroom not found for thread ID: ${threadId}`);
+    return await interaction.update({
+      content: "This classroom no longer exists.",
+      embeds: [],
+      components: [],
+    });
+  }
+
+  if (!hasClassroomRole(interaction, classroom, "instructor")) {
+    logger.interaction(
+      `${interaction.user.tag} attempted to review a group request without permission`,
+    );
+    return await interaction.reply({
+      content: getPermissionDeniedMessage("instructor"),
+      flags: "Ephemeral",
+    });
+  }
+
+  const request = classroom.reviewGroupChange(
+    requestId,
+    interaction.user.id,
+    decision === "approve",
+  );
+
+  let notice =
+    "That request could not be applied. It may have been reviewed already, or the group is full.";
+  if (request) {
+    const student = classroom.getStudent(request.studentId);
+    notice = `${request.status === "approved" ? "Approved" : "Rejected"} the switch of ${student?.name ?? "the student"} to ${classroom.getGroupName(request.to)}.`;
+
+    logger.interaction(
+      `User ${interaction.user.tag} ${request.status} group request ${requestId}`,
+    );
+
+    // Let the student know the outcome, ignoring users who do not accept DMs
+    try {
+      await interaction.client.users.send(
+        request.studentId,
+        `Your request to switch to ${classroom.getGroupName(request.to)} in ${classroom.name} was ${request.status}.`,
+      );
+    } catch (error) {
+      logger.interaction(
+        `Failed to notify ${request.studentId} of their group request: %O`,
+        error,
+      );
+    }
+  }
+
+  await interaction.update(createGroupRequestMessage(classroom, notice));
+}
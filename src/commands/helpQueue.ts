@@ -0,0 +1,143 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  CommandInteraction,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from "discord.js";
+import { type Classroom } from "../models/classroom.js";
+import { createAutoUpdateMessage } from "../utils/autoUpdateMessage.js";
+import { formatDuration } from "../utils/format.js";
+import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
+
+export const helpQueueCommand = {
+  data: new SlashCommandBuilder()
+    .setName("help-queue")
+    .setDescription("Show the help queue of the active lab with live updates")
+    .addIntegerOption((option) =>
+      option
+        .setName("update-time")
+        .setDescription("How long the queue should auto-update (in minutes)")
+        .setMinValue(1)
+        .setMaxValue(60)
+        .setRequired(false),
+    ),
+
+  async execute(interaction: CommandInteraction) {
+    try {
+      const context = await resolveClassroom(interaction, "ta");
+      if (!context) {
+        return;
+      }
+      const { thread, classroom } = context;
+
+      if (!classroom.activeLabSession) {
+        logger.command(
+          `${interaction.user.tag} attempted to use help-queue with no active lab`,
+        );
+        return await interaction.reply({
+          content: "There is no active lab session in this classroom.",
+          flags: "Ephemeral",
+        });
+      }
+
+      const updateTimeMinutes =
+        (interaction.options.get("update-time")?.value as number) || 15;
+      const updateTimeMs = updateTimeMinutes * 60 * 1000;
+
+      logger.command(
+        `${interaction.user.tag} opened the help queue of "${classroom.activeLabSession.name}" with ${updateTimeMinutes} minute update time`,
+      );
+
+      await createAutoUpdateMessage({
+        interaction,
+        content: `Help queue for "${classroom.activeLabSession.name}" will update every 30 seconds for ${updateTimeMinutes} minutes and immediately when students raise their hands.`,
+        generateEmbed: () => createHelpQueueEmbed(classroom),
+        generateComponents: () => [
+          new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+              .setCustomId(`help_claim:${thread.id}`)
+              .setLabel("Claim Next")
+              .setStyle(ButtonStyle.Primary),
+            new ButtonBuilder()
+              .setCustomId(`help_resolve:${thread.id}`)
+              .setLabel("Resolve Mine")
+              .setStyle(ButtonStyle.Success),
+          ),
+        ],
+        timeLimit: updateTimeMs,
+        classroom: classroom,
+      });
+    } catch (error) {
+      logger.command(`Error in help-queue command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while retrieving the help queue.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
+
+/**
+ * Helper function to create a help queue embed
+ * Shows waiting and in-progress requests of the active lab, with response times so far
+ *
+ * @param classroom - The classroom to generate the help queue for
+ * @returns An embed with the current help queue
+ */
+function createHelpQueueEmbed(classroom: Classroom): EmbedBuilder {
+  const lab = classroom.activeLabSession;
+  const embed = new EmbedBuilder()
+    .setTitle(`Help Queue: ${lab?.name || "No active lab"}`)
+    .setColor("#FFA500")
+    .setTimestamp();
+
+  if (!lab) {
+    embed.setDescription("No active lab session.");
+    return embed;
+  }
+
+  const queue = classroom.getHelpQueue();
+  const waiting = queue.filter((request) => !request.claimedBy);
+  const inProgress = queue.filter((request) => request.claimedBy);
+
+  const describeStudent = (studentId: string) => {
+    const student = classroom.getStudent(studentId);
+    const groupInfo = student?.group
+      ? ` (${classroom.getGroupName(student.group)})`
+      : "";
+    return `${student?.name ?? "Unknown student"}${groupInfo}`;
+  };
+
+  let description = `**Waiting:** ${waiting.length}\n`;
+  description +=
+    waiting.length > 0
+      ? waiting
+          .map(
+            (request, i) =>
+              `${i + 1}. ${describeStudent(request.studentId)} - raised <t:${Math.floor(request.requestedAt.getTime() / 1000)}:R>`,
+          )
+          .join("\n")
+      : "No one is waiting.";
+
+  description += `\n\n**In Progress:** ${inProgress.length}\n`;
+  if (inProgress.length > 0) {
+    description += inProgress
+      .map(
+        (request) =>
+          `- ${describeStudent(request.studentId)} - with <@${request.claimedBy}> since <t:${Math.floor(request.claimedAt!.getTime() / 1000)}:R>`,
+      )
+      .join("\n");
+  }
+
+  const stats = classroom.getHelpStats(lab.id);
+  if (stats.resolved > 0) {
+    description += `\n\n**Resolved:** ${stats.resolved} • Avg. wait ${formatDuration(stats.averageWaitMs!)} • Avg. resolution ${formatDuration(stats.averageResolutionMs!)}`;
+  }
+
+  embed.setDescription(description);
+  return embed;
+}
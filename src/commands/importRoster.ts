@@ -0,0 +1,276 @@
+import {
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from "discord.js";
+import {
+  createStudent,
+  type Classroom,
+  type RosterEntry,
+} from "../models/classroom.js";
+import { parseCsv } from "../utils/csv.js";
+import { formatList } from "../utils/format.js";
+import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
+
+// Largest roster file accepted, far above any real class size
+const MAX_ROSTER_SIZE = 1024 * 1024; // 1 MB
+
+// Accepted header names of each roster column, compared without case, spaces or punctuation
+const ROSTER_COLUMNS = {
+  studentNumber: ["studentid", "studentnumber", "id"],
+  realName: ["name", "realname", "fullname"],
+  discordUsername: ["discord", "discordusername", "username"],
+  group: ["group"],
+} as const;
+
+type RosterColumn = keyof typeof ROSTER_COLUMNS;
+
+/**
+ * A roster row that could not be imported
+ */
+interface RosterProblem {
+  line: number; // Line number in the file, counting the header as line 1
+  reason: string;
+}
+
+export const importRosterCommand = {
+  data: new SlashCommandBuilder()
+    .setName("import-roster")
+    .setDescription(
+      "Import a roster CSV and pre-register matching Discord users as students",
+    )
+    .addAttachmentOption((option) =>
+      option
+        .setName("roster")
+        .setDescription(
+          "CSV with student ID, name, Discord username and optional group columns",
+        )
+        .setRequired(true),
+    ),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    try {
+      const context = await resolveClassroom(interaction, "instructor");
+      if (!context) {
+        return;
+      }
+      const { classroom } = context;
+
+      const attachment = interaction.options.getAttachment("roster", true);
+      if (attachment.size > MAX_ROSTER_SIZE) {
+        return await interaction.reply({
+          content: "The roster file is too large, the limit is 1 MB.",
+          flags: "Ephemeral",
+        });
+      }
+
+      // Downloading the file and the member list can take a while
+      await interaction.deferReply({ flags: "Ephemeral" });
+
+      const response = await fetch(attachment.url);
+      if (!response.ok) {
+        throw new Error(`Failed to download roster: HTTP ${response.status}`);
+      }
+
+      const parsed = parseRoster(await response.text(), classroom);
+      if (typeof parsed === "string") {
+        return await interaction.editReply({ content: parsed });
+      }
+      const { entries, lines, problems } = parsed;
+
+      // Index the server's members by username for matching
+      const members = await interaction.guild!.members.fetch();
+      const membersByUsername = new Map(
+        members.map((member) => [member.user.username.toLowerCase(), member]),
+      );
+
+      // Link students who already joined, then pre-register the remaining matches
+      classroom.importRoster(entries);
+      const linked = entries.filter((entry) => entry.discordId).length;
+
+      let registered = 0;
+      const unmatched: RosterEntry[] = [];
+      for (const [index, entry] of entries.entries()) {
+        if (!entry.discordId) {
+          const member = membersByUsername.get(
+            entry.discordUsername.toLowerCase(),
+          );
+          if (!member) {
+            unmatched.push(entry);
+            continue;
+          }
+          if (classroom.getStudent(member.id)) {
+            problems.push({
+              line: lines[index],
+              reason: `@${entry.discordUsername} is already linked to another row`,
+            });
+            continue;
+          }
+
+          classroom.addStudent(createStudent(member.id, member.user.username));
+          registered++;
+        }
+
+        const student = classroom.getStudent(entry.discordId!);
+        if (
+          entry.group !== undefined &&
+          student &&
+          student.group !== entry.group &&
+          !classroom.assignStudentToGroup(
+            student.id,
+            entry.group,
+            interaction.user.id,
+          )
+        ) {
+          problems.push({
+            line: lines[index],
+            reason: `${entry.realName} could not be placed in ${classroom.getGroupName(entry.group)} because it is full`,
+          });
+        }
+      }
+
+      logger.command(
+        `${interaction.user.tag} imported a roster of ${entries.length} row(s) into ${classroom.name}: ${registered} registered, ${unmatched.length} unmatched`,
+      );
+
+      const embed = new EmbedBuilder()
+        .setTitle(`Roster Import: ${classroom.name}`)
+        .setDescription(
+          `**Rows imported:** ${entries.length}\n` +
+            `**Newly registered:** ${registered}\n` +
+            `**Linked to enrolled students:** ${linked}\n` +
+            `**Unmatched:** ${unmatched.length}\n\n` +
+            "Unmatched students are linked automatically when they join a group.",
+        )
+        .setColor(
+          unmatched.length + problems.length > 0 ? "#FFA500" : "#00FF00",
+        )
+        .setTimestamp();
+
+      if (unmatched.length > 0) {
+        embed.addFields({
+          name: "No Discord Member Found",
+          value: formatList(
+            unmatched.map(
+              (entry) =>
+                `- ${entry.studentNumber} ${entry.realName} (@${entry.discordUsername})`,
+            ),
+            1024,
+          ),
+        });
+      }
+
+      if (problems.length > 0) {
+        embed.addFields({
+          name: "Problems",
+          value: formatList(
+            problems.map(
+              (problem) => `- Line ${problem.line}: ${problem.reason}`,
+            ),
+            1024,
+          ),
+        });
+      }
+
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      logger.command(`Error in import-roster command: %O`, error);
+      console.error(error);
+      const message = {
+        content: "An error occurred while importing the roster.",
+      };
+      if (interaction.deferred) {
+        await interaction.editReply(message);
+      } else {
+        await interaction.reply({ ...message, flags: "Ephemeral" });
+      }
+    }
+  },
+};
+
+/**
+ * Parses a roster CSV into roster entries
+ * The first row must be a header naming the columns, in any order
+ *
+ * @param text - The CSV text
+ * @param classroom - The classroom, used to resolve group numbers and names
+ * @returns The valid entries with their line numbers and the problems of invalid rows, or an error message if the file cannot be used
+ */
+function parseRoster(
+  text: string,
+  classroom: Classroom,
+):
+  | { entries: RosterEntry[]; lines: number[]; problems: RosterProblem[] }
+  | string {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return "The roster file is empty.";
+  }
+
+  // Find the index of every known column in the header
+  const normalized = header.map((name) =>
+    name.toLowerCase().replace(/[^a-z]/g, ""),
+  );
+  const columns = Object.fromEntries(
+    Object.entries(ROSTER_COLUMNS).map(([column, names]) => [
+      column,
+      normalized.findIndex((name) =>
+        (names as readonly string[]).includes(name),
+      ),
+    ]),
+  ) as Record<RosterColumn, number>;
+
+  const missing = (["studentNumber", "realName", "discordUsername"] as const)
+    .filter((column) => columns[column] === -1)
+    .map((column) => ROSTER_COLUMNS[column][0]);
+  if (missing.length > 0) {
+    return `The roster is missing the ${missing.join(", ")} column${missing.length !== 1 ? "s" : ""}. The first row must name the columns: student_id, name, discord, and optionally group.`;
+  }
+
+  const entries: RosterEntry[] = [];
+  const lines: number[] = [];
+  const problems: RosterProblem[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const value = (column: RosterColumn) =>
+      columns[column] === -1 ? "" : (row[columns[column]] ?? "").trim();
+
+    const studentNumber = value("studentNumber");
+    const realName = value("realName");
+    const discordUsername = value("discordUsername").replace(/^@/, "");
+    const groupValue = value("group");
+
+    if (!studentNumber || !realName) {
+      problems.push({ line, reason: "Missing student ID or name" });
+      return;
+    }
+    if (seen.has(studentNumber)) {
+      problems.push({ line, reason: `Duplicate student ID ${studentNumber}` });
+      return;
+    }
+
+    // Groups can be given by number or by name
+    let group: number | undefined;
+    if (groupValue) {
+      group = Array.from({ length: classroom.groups }, (_, i) => i + 1).find(
+        (number) =>
+          String(number) === groupValue ||
+          classroom.getGroupName(number).toLowerCase() ===
+            groupValue.toLowerCase(),
+      );
+      if (group === undefined) {
+        problems.push({ line, reason: `Unknown group "${groupValue}"` });
+        return;
+      }
+    }
+
+    seen.add(studentNumber);
+    entries.push({ studentNumber, realName, discordUsername, group });
+    lines.push(line);
+  });
+
+  return { entries, lines, problems };
+}
@@ -1,30 +1,112 @@
 import { REST, Routes } from "discord.js";
 import logger from "../utils/logger.js";
+import { assignGroupsCommand } from "./assignGroups.js";
+import { attendanceSummaryCommand } from "./attendanceSummary.js";
 import { checkStatusCommand } from "./checkStatus.js";
+import { classroomStaffCommand } from "./classroomStaff.js";
+import { courseCommand } from "./course.js";
 import { createClassroomCommand } from "./createClassroom.js";
+import { endLabCommand } from "./endLab.js";
 import { enrollmentStatusCommand } from "./enrollmentStatus.js";
+import { exportClassroomCommand } from "./exportClassroom.js";
+import { groupLeaderCommand } from "./groupLeader.js";
+import { groupRequestsCommand } from "./groupRequests.js";
+import { helpQueueCommand } from "./helpQueue.js";
+import { importRosterCommand } from "./importRoster.js";
 import { inviteLinkCommand } from "./inviteLink.js";
 import { labStatsCommand } from "./labStats.js";
+import { leaderboardCommand } from "./leaderboard.js";
+import { lockGroupsCommand, unlockGroupsCommand } from "./lockGroups.js";
+import { myProgressCommand } from "./myProgress.js";
+import {
+  handleLabAutocomplete,
+  labCompletionContextMenu,
+  markCompleteCommand,
+  unmarkCompleteCommand,
+} from "./overrideCompletion.js";
+import { peerReviewCommand } from "./peerReview.js";
+import { quizCommand } from "./quiz.js";
+import { reviewSubmissionsCommand } from "./reviewSubmissions.js";
+import { scoringCommand } from "./scoring.js";
 import { startLabCommand } from "./startLab.js";
+import { takeAttendanceCommand } from "./takeAttendance.js";
+import { thankCommand } from "./thank.js";
 
 // Array of all command data
 const commands = [
   createClassroomCommand.data.toJSON(),
   startLabCommand.data.toJSON(),
+  endLabCommand.data.toJSON(),
   checkStatusCommand.data.toJSON(),
   inviteLinkCommand.data.toJSON(),
   enrollmentStatusCommand.data.toJSON(),
   labStatsCommand.data.toJSON(),
+  helpQueueCommand.data.toJSON(),
+  reviewSubmissionsCommand.data.toJSON(),
+  classroomStaffCommand.data.toJSON(),
+  assignGroupsCommand.data.toJSON(),
+  lockGroupsCommand.data.toJSON(),
+  unlockGroupsCommand.data.toJSON(),
+  groupRequestsCommand.data.toJSON(),
+  groupLeaderCommand.data.toJSON(),
+  exportClassroomCommand.data.toJSON(),
+  importRosterCommand.data.toJSON(),
+  takeAttendanceCommand.data.toJSON(),
+  attendanceSummaryCommand.data.toJSON(),
+  quizCommand.data.toJSON(),
+  myProgressCommand.data.toJSON(),
+  leaderboardCommand.data.toJSON(),
+  thankCommand.data.toJSON(),
+  scoringCommand.data.toJSON(),
+  courseCommand.data.toJSON(),
+  markCompleteCommand.data.toJSON(),
+  unmarkCompleteCommand.data.toJSON(),
+  peerReviewCommand.data.toJSON(),
+  labCompletionContextMenu.data.toJSON(),
 ];
 
 // Export command handlers
 export const commandHandlers = {
   [createClassroomCommand.data.name]: createClassroomCommand.execute,
   [startLabCommand.data.name]: startLabCommand.execute,
+  [endLabCommand.data.name]: endLabCommand.execute,
   [checkStatusCommand.data.name]: checkStatusCommand.execute,
   [inviteLinkCommand.data.name]: inviteLinkCommand.execute,
   [enrollmentStatusCommand.data.name]: enrollmentStatusCommand.execute,
   [labStatsCommand.data.name]: labStatsCommand.execute,
+  [helpQueueCommand.data.name]: helpQueueCommand.execute,
+  [reviewSubmissionsCommand.data.name]: reviewSubmissionsCommand.execute,
+  [classroomStaffCommand.data.name]: classroomStaffCommand.execute,
+  [assignGroupsCommand.data.name]: assignGroupsCommand.execute,
+  [lockGroupsCommand.data.name]: lockGroupsCommand.execute,
+  [unlockGroupsCommand.data.name]: unlockGroupsCommand.execute,
+  [groupRequestsCommand.data.name]: groupRequestsCommand.execute,
+  [groupLeaderCommand.data.name]: groupLeaderCommand.execute,
+  [exportClassroomCommand.data.name]: exportClassroomCommand.execute,
+  [importRosterCommand.data.name]: importRosterCommand.execute,
+  [takeAttendanceCommand.data.name]: takeAttendanceCommand.execute,
+  [attendanceSummaryCommand.data.name]: attendanceSummaryCommand.execute,
+  [quizCommand.data.name]: quizCommand.execute,
+  [myProgressCommand.data.name]: myProgressCommand.execute,
+  [leaderboardCommand.data.name]: leaderboardCommand.execute,
+  [thankCommand.data.name]: thankCommand.execute,
+  [scoringCommand.data.name]: scoringCommand.execute,
+  [courseCommand.data.name]: courseCommand.execute,
+  [markCompleteCommand.data.name]: markCompleteCommand.execute,
+  [unmarkCompleteCommand.data.name]: unmarkCompleteCommand.execute,
+  [peerReviewCommand.data.name]: peerReviewCommand.execute,
+};
+
+// Export user context menu handlers
+export const contextMenuHandlers = {
+  [labCompletionContextMenu.data.name]: labCompletionContextMenu.execute,
+};
+
+// Export autocomplete handlers of commands with autocompleted options
+export const autocompleteHandlers = {
+  [markCompleteCommand.data.name]: handleLabAutocomplete,
+  [unmarkCompleteCommand.data.name]: handleLabAutocomplete,
+  [peerReviewCommand.data.name]: handleLabAutocomplete,
 };
 
 // Function to register all commands with Discord
@@ -3,9 +3,18 @@ import {
   EmbedBuilder,
   SlashCommandBuilder,
 } from "discord.js";
-import { classrooms } from "../models/classroom.js";
+import { type Classroom } from "../models/classroom.js";
 import { createAutoUpdateMessage } from "../utils/autoUpdateMessage.js";
+import { formatSections } from "../utils/format.js";
+import { createStepFunnelDescription } from "../utils/labFunnel.js";
+import {
+  createTimingDescription,
+  formatTiming,
+  getCompletionTiming,
+} from "../utils/labTiming.js";
 import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
+import { createTeamCompletionDescription } from "../utils/teamCompletion.js";
 
 export const labStatsCommand = {
   data: new SlashCommandBuilder()
@@ -22,35 +31,18 @@ export const labStatsCommand = {
 
   async execute(interaction: CommandInteraction) {
     try {
-      if (!interaction.channel || !interaction.channel.isThread()) {
-        logger.command(
-          `${interaction.user.tag} attempted to use lab-stats outside of a thread`,
-        );
-        return await interaction.reply({
-          content: "This command can only be used in classroom threads.",
-          flags: "Ephemeral",
-        });
-      }
-
-      const threadId = interaction.channel.id;
-      const classroom = classrooms.get(threadId);
-
-      if (!classroom) {
-        logger.command(
-          `${interaction.user.tag} attempted to use lab-stats in a non-classroom thread`,
-        );
-        return await interaction.reply({
-          content: "This thread is not a registered classroom.",
-          flags: "Ephemeral",
-        });
+      const context = await resolveClassroom(interaction, "ta");
+      if (!context) {
+        return;
       }
+      const { classroom } = context;
 
-      if (!classroom.activeLabSession) {
+      if (classroom.labs.length === 0) {
         logger.command(
-          `${interaction.user.tag} attempted to use lab-stats with no active lab`,
+          `${interaction.user.tag} attempted to use lab-stats with no labs`,
         );
         return await interaction.reply({
-          content: "There is no active lab session in this classroom.",
+          content: "No labs have been run in this classroom yet.",
           flags: "Ephemeral",
         });
       }
@@ -60,12 +52,12 @@ export const labStatsCommand = {
       const updateTimeMs = updateTimeMinutes * 60 * 1000;
 
       logger.command(
-        `${interaction.user.tag} requested lab stats for "${classroom.activeLabSession.name}" with ${updateTimeMinutes} minute update time`,
+        `${interaction.user.tag} requested lab stats for ${classroom.name} with ${updateTimeMinutes} minute update time`,
       );
 
       await createAutoUpdateMessage({
         interaction,
-        content: `Lab statistics for "${classroom.activeLabSession.name}" will update every 30 seconds for ${updateTimeMinutes} minutes and immediately when student progress changes.`,
+        content: `Lab statistics for ${classroom.name} will update every 30 seconds for ${updateTimeMinutes} minutes and immediately when student progress changes.`,
         generateEmbed: () => createLabStatusEmbed(classroom),
         timeLimit: updateTimeMs,
         classroom: classroom,
@@ -83,12 +75,14 @@ export const labStatsCommand = {
 
 /**
  * Helper function to create a lab status embed
- * Shows completion percentages overall and by group
+ * Shows completion percentages and times overall and by group for the active lab,
+ * followed by the results of every ended lab
+ * Every section is cut to fit, so large classes never overflow the embed description
  *
  * @param classroom - The classroom to generate lab statistics for
  * @returns An embed with detailed lab completion information
  */
-function createLabStatusEmbed(classroom: any) {
+function createLabStatusEmbed(classroom: Classroom) {
   const embed = new EmbedBuilder()
     .setTitle(
       `Lab Status: ${classroom.activeLabSession?.name || "No active lab"}`,
@@ -97,61 +91,168 @@ function createLabStatusEmbed(classroom: any) {
     .setTimestamp();
 
   if (!classroom.activeLabSession) {
-    embed.setDescription("No active lab session.");
+    embed.setDescription(
+      formatSections([
+        "No active lab session.",
+        createLabHistoryDescription(classroom),
+      ]),
+    );
     return embed;
   }
 
-  let description = `Started: ${classroom.activeLabSession.startTime.toLocaleString()}\n\n`;
+  const lab = classroom.activeLabSession;
+  const sections = [`Started: ${lab.startTime.toLocaleString()}`];
 
   const totalStudents = classroom.students.size;
-  const completedStudents = Array.from(classroom.students.values()).filter(
-    (student: any) => student.completedLabs.has(classroom.activeLabSession!.id),
-  ).length;
+  const completedStudents = classroom.students.filter((student) =>
+    student.completedLabs.has(lab.id),
+  );
 
+  let completion: string;
   if (totalStudents === 0) {
-    description += `**Completion Status:** No students in classroom\n\n`;
+    completion = `**Completion Status:** No students in classroom\n`;
+  } else if (lab.groupMode) {
+    completion = createTeamCompletionDescription(classroom, lab);
   } else {
-    description += `**Completion Status:** ${completedStudents}/${totalStudents} students (${Math.round((completedStudents / totalStudents) * 100) || 0}%)\n\n`;
+    completion = `**Completion Status:** ${completedStudents.size}/${totalStudents} students (${Math.round((completedStudents.size / totalStudents) * 100) || 0}%)\n`;
   }
 
-  if (classroom.groups > 1) {
+  if (lab.requireSubmission) {
+    const pendingCount = classroom
+      .getPendingSubmissions()
+      .filter((submission) => submission.labId === lab.id).length;
+    completion += `**Pending Review:** ${pendingCount} submission${pendingCount !== 1 ? "s" : ""}\n`;
+  }
+  sections.push(completion);
+
+  if (classroom.groups > 1 && !lab.groupMode) {
+    const lines: string[] = [];
     for (let i = 1; i <= classroom.groups; i++) {
-      const groupStudents = Array.from(classroom.students.values()).filter(
-        (student: any) => student.group === i,
+      const groupStudents = classroom.students.filter(
+        (student) => student.group === i,
       );
 
-      const groupTotal = groupStudents.length;
+      const groupTotal = groupStudents.size;
 
       if (groupTotal === 0) {
-        description += `**Group ${i}:** No students in group\n`;
+        lines.push(`**${classroom.getGroupName(i)}:** No students in group`);
       } else {
-        const groupCompleted = groupStudents.filter((student: any) =>
-          student.completedLabs.has(classroom.activeLabSession!.id),
-        ).length;
+        const groupCompleted = groupStudents.filter((student) =>
+          student.completedLabs.has(lab.id),
+        ).size;
 
         const completionPercentage =
           Math.round((groupCompleted / groupTotal) * 100) || 0;
-        description += `**Group ${i}:** ${groupCompleted}/${groupTotal} students (${completionPercentage}%)\n`;
+        lines.push(
+          `**${classroom.getGroupName(i)}:** ${groupCompleted}/${groupTotal} students (${completionPercentage}%)`,
+        );
       }
     }
+    sections.push(lines.join("\n"));
   }
 
-  if (completedStudents > 0) {
-    description += "\n**Completed Students:**\n";
+  sections.push(createStepFunnelDescription(classroom, lab));
 
-    const completedStudentsList = Array.from(classroom.students.values())
-      .filter((student: any) =>
-        student.completedLabs.has(classroom.activeLabSession!.id),
-      )
-      .map((student: any) => {
-        const groupInfo = student.group ? ` (Group ${student.group})` : "";
-        return `- ${student.name}${groupInfo}`;
-      })
-      .join("\n");
+  if (lab.answerHash) {
+    sections.push(createAttemptsDescription(classroom, lab.id));
+  }
+
+  sections.push(createOverridesDescription(classroom, lab.id));
+  sections.push(createTimingDescription(classroom, lab));
+
+  if (completedStudents.size > 0) {
+    const completedStudentsList = completedStudents.map((student) => {
+      const groupInfo = student.group
+        ? ` (${classroom.getGroupName(student.group)})`
+        : "";
+      const marked =
+        classroom.overrides.getLatest(student.id, lab.id)?.action === "mark"
+          ? " ✍️"
+          : "";
+      const completedBy = student.completedLabs.get(lab.id)?.completedBy;
+      const byTeammate = completedBy
+        ? ` (by ${classroom.getStudent(completedBy)?.name ?? "a teammate"})`
+        : "";
+      return `- ${student.name}${groupInfo}${byTeammate}${marked}`;
+    });
+
+    sections.push(
+      "**Completed Students:**\n" + completedStudentsList.join("\n"),
+    );
+  }
 
-    description += completedStudentsList;
+  if (classroom.labHistory.length > 0) {
+    sections.push(createLabHistoryDescription(classroom));
   }
 
-  embed.setDescription(description);
+  embed.setDescription(formatSections(sections));
   return embed;
 }
+
+/**
+ * Helper function to list students with wrong answers to a lab
+ * Flags students who seem to be guessing and those who seem to be stuck
+ *
+ * @param classroom - The classroom the lab belongs to
+ * @param labId - The ID of the lab session
+ * @returns A description of wrong answer attempts, or an empty string if there are none
+ */
+function createAttemptsDescription(classroom: Classroom, labId: string) {
+  const lines = classroom.students
+    .filter((student) => student.failedAttempts.has(labId))
+    .map((student) => {
+      const attempts = student.failedAttempts.get(labId)!.length;
+      const pattern = classroom.getAttemptPattern(student.id, labId);
+      const flag =
+        pattern === "guessing"
+          ? " 🚨 guessing"
+          : pattern === "stuck"
+            ? " 🆘 stuck"
+            : "";
+      const done = student.completedLabs.has(labId) ? " ✅" : "";
+      return `- ${student.name}: ${attempts} wrong attempt${attempts !== 1 ? "s" : ""}${flag}${done}`;
+    });
+
+  return lines.length > 0 ? `**Wrong Answers:**\n${lines.join("\n")}` : "";
+}
+
+/**
+ * Helper function to list the completion changes staff made to a lab
+ *
+ * @param classroom - The classroom the lab belongs to
+ * @param labId - The ID of the lab session
+ * @returns A description of the overrides with who made them and why, or an empty string if there are none
+ */
+function createOverridesDescription(classroom: Classroom, labId: string) {
+  const lines = classroom.overrides.list
+    .filter((override) => override.labId === labId)
+    .map((override) => {
+      const name =
+        classroom.getStudent(override.studentId)?.name ?? override.studentId;
+      return `- ${override.action === "mark" ? "✅" : "↩️"} ${name} ${override.action === "mark" ? "marked complete" : "unmarked"} by <@${override.by}>: ${override.reason}`;
+    });
+
+  return lines.length > 0 ? `**Overrides:**\n${lines.join("\n")}` : "";
+}
+
+/**
+ * Helper function to summarize the results of every ended lab by name
+ * Includes the median and 90th percentile time to complete, to spot badly paced labs
+ *
+ * @param classroom - The classroom whose lab history to summarize
+ * @returns A description listing the completion rate of each ended lab
+ */
+function createLabHistoryDescription(classroom: Classroom): string {
+  if (classroom.labHistory.length === 0) {
+    return "No labs have ended yet.";
+  }
+
+  const totalStudents = classroom.students.size;
+  const lines = classroom.labHistory.map((lab) => {
+    const completed = classroom.countCompletions(lab.id);
+    const timing = getCompletionTiming(classroom, lab.id);
+    return `- **${lab.name}:** ${completed}/${totalStudents} students (${Math.round((completed / totalStudents) * 100) || 0}%)${timing ? `, ${formatTiming(timing)}` : ""}`;
+  });
+
+  return "**Lab History:**\n" + lines.join("\n");
+}
@@ -0,0 +1,155 @@
+import {
+  CommandInteraction,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from "discord.js";
+import {
+  archivedClassrooms,
+  classrooms,
+  type Classroom,
+} from "../models/classroom.js";
+import { formatList } from "../utils/format.js";
+import logger from "../utils/logger.js";
+import {
+  formatBadges,
+  getClassroomSemester,
+  getLeaderboard,
+  getSemester,
+} from "../utils/points.js";
+
+// Number of students listed on a leaderboard
+const LEADERBOARD_SIZE = 10;
+
+// Medals of the top three students
+const MEDALS = ["🥇", "🥈", "🥉"];
+
+export const leaderboardCommand = {
+  data: new SlashCommandBuilder()
+    .setName("leaderboard")
+    .setDescription("Rank students by their participation points")
+    .addStringOption((option) =>
+      option
+        .setName("scope")
+        .setDescription(
+          "Rank this classroom or every classroom of a semester (default: this classroom)",
+        )
+        .addChoices(
+          { name: "This classroom", value: "classroom" },
+          { name: "Semester", value: "semester" },
+        )
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("semester")
+        .setDescription(
+          'Semester to rank, e.g. "Fall 2025" (default: the current semester)',
+        )
+        .setRequired(false),
+    ),
+
+  async execute(interaction: CommandInteraction) {
+    try {
+      const semesterOption = interaction.options.get("semester")?.value as
+        | string
+        | undefined;
+      const scope =
+        (interaction.options.get("scope")?.value as string | undefined) ??
+        (semesterOption ? "semester" : "classroom");
+
+      let title: string;
+      let ranked: Classroom[];
+
+      if (scope === "semester") {
+        if (!interaction.guildId) {
+          return await interaction.reply({
+            content: "Semester leaderboards are only available in servers.",
+            flags: "Ephemeral",
+          });
+        }
+
+        // Accept any capitalization and spacing, e.g. "fall  2025"
+        const semester = semesterOption
+          ? semesterOption
+              .trim()
+              .toLowerCase()
+              .replace(/\s+/g, " ")
+              .replace(/^\w/, (letter) => letter.toUpperCase())
+          : getSemester(new Date());
+
+        title = `Leaderboard: ${semester}`;
+        ranked = [
+          ...classrooms.values(),
+          ...archivedClassrooms.values(),
+        ].filter(
+          (classroom) =>
+            classroom.guildId === interaction.guildId &&
+            getClassroomSemester(classroom) === semester,
+        );
+
+        if (ranked.length === 0) {
+          return await interaction.reply({
+            content: `No classrooms were created in ${semester}.`,
+            flags: "Ephemeral",
+          });
+        }
+      } else {
+        const classroom = interaction.channel?.isThread()
+          ? classrooms.get(interaction.channel.id)
+          : undefined;
+
+        if (!classroom) {
+          logger.command(
+            `${interaction.user.tag} attempted to use leaderboard outside of a classroom`,
+          );
+          return await interaction.reply({
+            content:
+              "Use this command in a classroom thread, or choose the semester scope.",
+            flags: "Ephemeral",
+          });
+        }
+
+        title = `Leaderboard: ${classroom.name}`;
+        ranked = [classroom];
+      }
+
+      const leaderboard = getLeaderboard(ranked);
+      const embed = new EmbedBuilder()
+        .setTitle(title)
+        .setColor("#FFD700")
+        .setTimestamp();
+
+      if (leaderboard.length === 0) {
+        embed.setDescription("No students have joined yet.");
+      } else {
+        const lines = leaderboard
+          .slice(0, LEADERBOARD_SIZE)
+          .map((entry, index) =>
+            `${MEDALS[index] ?? `**#${index + 1}**`} ${entry.name}: ${entry.points} point${entry.points !== 1 ? "s" : ""} ${formatBadges(entry.badges)}`.trim(),
+          );
+        embed.setDescription(formatList(lines, 4096));
+
+        const rank = leaderboard.findIndex(
+          (entry) => entry.userId === interaction.user.id,
+        );
+        if (rank !== -1) {
+          embed.setFooter({
+            text: `Your rank: #${rank + 1} of ${leaderboard.length} with ${leaderboard[rank].points} points`,
+          });
+        }
+      }
+
+      logger.command(
+        `${interaction.user.tag} viewed the ${scope} leaderboard (${ranked.length} classroom(s))`,
+      );
+      await interaction.reply({ embeds: [embed], flags: "Ephemeral" });
+    } catch (error) {
+      logger.command(`Error in leaderboard command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while retrieving the leaderboard.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
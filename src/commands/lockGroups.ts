@@ -0,0 +1,62 @@
+import { CommandInteraction, SlashCommandBuilder } from "discord.js";
+import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
+
+/**
+ * Creates a command that locks or unlocks the groups of the current classroom
+ *
+ * @param locked - Whether the command locks (true) or unlocks (false) groups
+ * @returns The command definition and handler
+ */
+function createGroupLockCommand(locked: boolean) {
+  const name = locked ? "lock-groups" : "unlock-groups";
+
+  return {
+    data: new SlashCommandBuilder()
+      .setName(name)
+      .setDescription(
+        locked
+          ? "Lock groups so that switching requires instructor approval"
+          : "Unlock groups so that students can switch freely",
+      ),
+
+    async execute(interaction: CommandInteraction) {
+      try {
+        const context = await resolveClassroom(interaction, "instructor");
+        if (!context) {
+          return;
+        }
+        const { classroom } = context;
+
+        if (classroom.groupsLocked === locked) {
+          return await interaction.reply({
+            content: `Groups are already ${locked ? "locked" : "unlocked"}.`,
+            flags: "Ephemeral",
+          });
+        }
+
+        classroom.setGroupsLocked(locked);
+        logger.command(
+          `${interaction.user.tag} ${locked ? "locked" : "unlocked"} groups in ${classroom.name}`,
+        );
+
+        // Announce in the thread so students know whether they can switch
+        await interaction.reply(
+          locked
+            ? "🔒 Groups are now locked. Clicking another group's button will send a switch request to the instructors."
+            : "🔓 Groups are now unlocked. You can switch groups freely.",
+        );
+      } catch (error) {
+        logger.command(`Error in ${name} command: %O`, error);
+        console.error(error);
+        await interaction.reply({
+          content: `An error occurred while ${locked ? "locking" : "unlocking"} groups.`,
+          flags: "Ephemeral",
+        });
+      }
+    },
+  };
+}
+
+export const lockGroupsCommand = createGroupLockCommand(true);
+export const unlockGroupsCommand = createGroupLockCommand(false);
@@ -0,0 +1,123 @@
+import {
+  CommandInteraction,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from "discord.js";
+import type { Classroom, Student } from "../models/classroom.js";
+import { getStudentClassrooms } from "../models/studentIndex.js";
+import { formatList } from "../utils/format.js";
+import logger from "../utils/logger.js";
+import { formatBadges } from "../utils/points.js";
+
+// Discord allows at most 25 fields per embed
+const MAX_CLASSROOMS = 25;
+
+export const myProgressCommand = {
+  data: new SlashCommandBuilder()
+    .setName("my-progress")
+    .setDescription(
+      "Show your groups and lab completions in every classroom you joined",
+    ),
+
+  async execute(interaction: CommandInteraction) {
+    try {
+      const joined = getStudentClassrooms(interaction.user.id);
+
+      if (joined.length === 0) {
+        logger.command(
+          `${interaction.user.tag} requested their progress without joining any classroom`,
+        );
+        return await interaction.reply({
+          content:
+            "You have not joined any classroom yet. Click a group's join button in a classroom thread to join.",
+          flags: "Ephemeral",
+        });
+      }
+
+      // Show the most recently joined classrooms if there are too many for one embed
+      const shown = joined.slice(-MAX_CLASSROOMS);
+
+      const embed = new EmbedBuilder()
+        .setTitle("My Progress")
+        .setColor("#0099FF")
+        .setTimestamp()
+        .addFields(
+          shown.map((classroom) => ({
+            name: `${classroom.archivedAt ? "📦 " : ""}${classroom.name}`,
+            value: createProgressDescription(
+              classroom,
+              classroom.getStudent(interaction.user.id)!,
+            ),
+          })),
+        );
+
+      if (shown.length < joined.length) {
+        embed.setDescription(
+          `Showing the ${shown.length} most recently joined of ${joined.length} classrooms.`,
+        );
+      }
+
+      logger.command(
+        `${interaction.user.tag} viewed their progress in ${joined.length} classroom(s)`,
+      );
+      await interaction.reply({ embeds: [embed], flags: "Ephemeral" });
+    } catch (error) {
+      logger.command(`Error in my-progress command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while retrieving your progress.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
+
+/**
+ * Describes a student's group, points and lab results in a classroom
+ *
+ * @param classroom - The classroom
+ * @param student - The student in the classroom
+ * @returns The description, short enough for an embed field
+ */
+function createProgressDescription(
+  classroom: Classroom,
+  student: Student,
+): string {
+  const badges = formatBadges(
+    classroom.participation.getBadges(student.id).map((award) => award.badge),
+  );
+  const group =
+    `**Group:** ${student.group ? classroom.getGroupName(student.group) : "Not assigned"}` +
+    (student.group && classroom.groupLeaders.get(student.group) === student.id
+      ? " 👑"
+      : "") +
+    ` • **Points:** ${classroom.participation.getPoints(student.id)}${badges ? ` ${badges}` : ""}`;
+
+  const labs = classroom.labs;
+  if (labs.length === 0) {
+    return `${group}\nNo labs yet.`;
+  }
+
+  const completedCount = labs.filter((lab) =>
+    student.completedLabs.has(lab.id),
+  ).length;
+
+  const lines = labs.map((lab) => {
+    const completion = student.completedLabs.get(lab.id);
+    const active = lab === classroom.activeLabSession ? " (active)" : "";
+    if (!completion) {
+      return `❌ ${lab.name}${active}`;
+    }
+    const time = completion.completedAt
+      ? ` <t:${Math.floor(completion.completedAt.getTime() / 1000)}:f>`
+      : "";
+    const late = completion.late ? " (late)" : "";
+    const byTeammate = completion.completedBy
+      ? ` (by ${classroom.getStudent(completion.completedBy)?.name ?? "a teammate"})`
+      : "";
+    return `✅ ${lab.name}${active}${time}${late}${byTeammate}`;
+  });
+
+  const header = `${group} • ${completedCount}/${labs.length} labs completed\n`;
+  return header + formatList(lines, 1024 - header.length);
+}
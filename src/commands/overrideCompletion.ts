@@ -0,0 +1,391 @@
+import {
+  ActionRowBuilder,
+  ApplicationCommandType,
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  ContextMenuCommandBuilder,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  SlashCommandBuilder,
+  StringSelectMenuBuilder,
+  StringSelectMenuInteraction,
+  TextInputBuilder,
+  TextInputStyle,
+  UserContextMenuCommandInteraction,
+} from "discord.js";
+import {
+  classrooms,
+  type Classroom,
+  type CompletionOverride,
+  type LabSession,
+} from "../models/classroom.js";
+import logger from "../utils/logger.js";
+import {
+  getPermissionDeniedMessage,
+  hasClassroomRole,
+  resolveClassroom,
+} from "../utils/permissions.js";
+
+// Longest reason accepted for an override
+const MAX_REASON_LENGTH = 200;
+
+// Discord allows at most 25 choices and select menu options
+const MAX_LAB_CHOICES = 25;
+
+/**
+ * Creates a command that marks or unmarks a lab as completed for a student
+ *
+ * @param action - Whether the command marks or unmarks the completion
+ * @returns The command definition and handler
+ */
+function createOverrideCommand(action: CompletionOverride["action"]) {
+  const name = action === "mark" ? "mark-complete" : "unmark-complete";
+
+  return {
+    data: new SlashCommandBuilder()
+      .setName(name)
+      .setDescription(
+        action === "mark"
+          ? "Mark a lab as completed for a student, e.g. after finishing offline"
+          : "Remove a student's completion of a lab, e.g. after a wrong click",
+      )
+      .addUserOption((option) =>
+        option
+          .setName("student")
+          .setDescription("The student")
+          .setRequired(true),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("reason")
+          .setDescription("Why the completion is changed")
+          .setMaxLength(MAX_REASON_LENGTH)
+          .setRequired(true),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("lab")
+          .setDescription("The lab (default: the active or latest lab)")
+          .setAutocomplete(true)
+          .setRequired(false),
+      ),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+      try {
+        const context = await resolveClassroom(interaction, "ta");
+        if (!context) {
+          return;
+        }
+        const { classroom } = context;
+
+        const student = interaction.options.getUser("student", true);
+        const reason = interaction.options.getString("reason", true).trim();
+        const labOption = interaction.options.getString("lab");
+        const lab = findLab(classroom, labOption);
+
+        if (!lab) {
+          return await interaction.reply({
+            content: labOption
+              ? `No lab named "${labOption}" has been run in this classroom.`
+              : "No labs have been run in this classroom yet.",
+            flags: "Ephemeral",
+          });
+        }
+
+        await interaction.reply({
+          content: applyOverride(
+            interaction.user.id,
+            classroom,
+            action,
+            student.id,
+            lab,
+            reason,
+          ),
+          flags: "Ephemeral",
+        });
+      } catch (error) {
+        logger.command(`Error in ${name} command: %O`, error);
+        console.error(error);
+        await interaction.reply({
+          content: "An error occurred while changing the lab completion.",
+          flags: "Ephemeral",
+        });
+      }
+    },
+  };
+}
+
+export const markCompleteCommand = createOverrideCommand("mark");
+export const unmarkCompleteCommand = createOverrideCommand("unmark");
+
+/**
+ * User context menu entry that lets staff pick a lab to mark or unmark for a student
+ */
+export const labCompletionContextMenu = {
+  data: new ContextMenuCommandBuilder()
+    .setName("Lab Completion")
+    .setType(ApplicationCommandType.User),
+
+  async execute(interaction: UserContextMenuCommandInteraction) {
+    try {
+      const context = await resolveClassroom(interaction, "ta");
+      if (!context) {
+        return;
+      }
+      const { classroom } = context;
+
+      const student = classroom.getStudent(interaction.targetUser.id);
+      if (!student) {
+        return await interaction.reply({
+          content: `${interaction.targetUser.username} is not a student of this classroom.`,
+          flags: "Ephemeral",
+        });
+      }
+
+      const labs = [...classroom.labs].reverse().slice(0, MAX_LAB_CHOICES);
+      if (labs.length === 0) {
+        return await interaction.reply({
+          content: "No labs have been run in this classroom yet.",
+          flags: "Ephemeral",
+        });
+      }
+
+      // Offer to unmark completed labs and to mark the others
+      const menu = new StringSelectMenuBuilder()
+        .setCustomId(`override_completion:${student.id}:${classroom.id}`)
+        .setPlaceholder("Choose a lab")
+        .addOptions(
+          labs.map((lab) => {
+            const completed = student.completedLabs.has(lab.id);
+            return {
+              label:
+                `${completed ? "Unmark" : "Mark complete"}: ${lab.name}`.slice(
+                  0,
+                  100,
+                ),
+              description: `${completed ? "✅ Completed" : "❌ Not completed"}${lab === classroom.activeLabSession ? " • active" : ""}`,
+              value: `${completed ? "unmark" : "mark"}:${lab.id}`,
+            };
+          }),
+        );
+
+      await interaction.reply({
+        content: `Change the lab completion of ${student.name}:`,
+        components: [
+          new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(menu),
+        ],
+        flags: "Ephemeral",
+      });
+    } catch (error) {
+      logger.command(`Error in Lab Completion context menu: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while changing the lab completion.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
+
+/**
+ * Suggests the labs of the current classroom, newest first, for the lab option
+ *
+ * @param interaction - The autocomplete interaction
+ */
+export async function handleLabAutocomplete(
+  interaction: AutocompleteInteraction,
+) {
+  const classroom = interaction.channel?.isThread()
+    ? classrooms.get(interaction.channel.id)
+    : undefined;
+  const query = interaction.options.getFocused().toLowerCase();
+
+  const labs = [...(classroom?.labs ?? [])]
+    .reverse()
+    .filter((lab) => lab.name.toLowerCase().includes(query))
+    .slice(0, MAX_LAB_CHOICES);
+
+  await interaction.respond(
+    labs.map((lab) => ({
+      name: `${lab.name} (${lab === classroom?.activeLabSession ? "active" : lab.startTime.toLocaleDateString()})`.slice(
+        0,
+        100,
+      ),
+      value: lab.id,
+    })),
+  );
+}
+
+/**
+ * Handles the lab picked from the context menu by asking for the reason of the change
+ *
+ * @param interaction - The select menu interaction
+ * @param params - The student ID and thread ID from the customId
+ */
+export async function handleOverrideSelect(
+  interaction: StringSelectMenuInteraction,
+  params: string[],
+) {
+  const [studentId, threadId] = params;
+  const [action, labId] = interaction.values[0].split(":");
+  const classroom = classrooms.get(threadId);
+  const lab = classroom?.getLab(labId);
+
+  if (!classroom || !lab) {
+    return await interaction.update({
+      content: "This classroom or lab no longer exists.",
+      components: [],
+    });
+  }
+
+  if (!hasClassroomRole(interaction, classroom, "ta")) {
+    logger.interaction(
+      `${interaction.user.tag} attempted to change lab completion without permission`,
+    );
+    return await interaction.reply({
+      content: getPermissionDeniedMessage("ta"),
+      flags: "Ephemeral",
+    });
+  }
+
+  await interaction.showModal(
+    new ModalBuilder()
+      .setCustomId(
+        `override_reason:${action}:${labId}:${studentId}:${threadId}`,
+      )
+      .setTitle(
+        `${action === "mark" ? "Mark complete" : "Unmark"}: ${lab.name}`.slice(
+          0,
+          45,
+        ),
+      )
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId("reason")
+            .setLabel("Reason")
+            .setStyle(TextInputStyle.Short)
+            .setMaxLength(MAX_REASON_LENGTH)
+            .setRequired(true),
+        ),
+      ),
+  );
+}
+
+/**
+ * Applies the change picked from the context menu once its reason is given
+ *
+ * @param interaction - The modal submit interaction
+ * @param params - The action, lab ID, student ID and thread ID from the customId
+ */
+export async function handleOverrideReasonSubmit(
+  interaction: ModalSubmitInteraction,
+  params: string[],
+) {
+  const [action, labId, studentId, threadId] = params;
+  const classroom = classrooms.get(threadId);
+  const lab = classroom?.getLab(labId);
+
+  if (!classroom || !lab) {
+    return await interaction.reply({
+      content: "This classroom or lab no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  if (!hasClassroomRole(interaction, classroom, "ta")) {
+    logger.interaction(
+      `${interaction.user.tag} attempted to change lab completion without permission`,
+    );
+    return await interaction.reply({
+      content: getPermissionDeniedMessage("ta"),
+      flags: "Ephemeral",
+    });
+  }
+
+  const content = applyOverride(
+    interaction.user.id,
+    classroom,
+    action as CompletionOverride["action"],
+    studentId,
+    lab,
+    interaction.fields.getTextInputValue("reason").trim(),
+  );
+
+  if (interaction.isFromMessage()) {
+    await interaction.update({ content, components: [] });
+  } else {
+    await interaction.reply({ content, flags: "Ephemeral" });
+  }
+}
+
+/**
+ * Finds the lab an override refers to
+ * The option holds a lab ID when picked from the suggestions, or a name when typed
+ *
+ * @param classroom - The classroom
+ * @param value - The lab option, or null to use the active or latest lab
+ * @returns The lab if found, undefined otherwise
+ */
+function findLab(
+  classroom: Classroom,
+  value: string | null,
+): LabSession | undefined {
+  const labs = classroom.labs;
+  if (!value) {
+    return classroom.activeLabSession ?? labs.at(-1);
+  }
+
+  return (
+    classroom.getLab(value) ??
+    labs
+      .filter((lab) => lab.name.toLowerCase() === value.trim().toLowerCase())
+      .at(-1)
+  );
+}
+
+/**
+ * Marks or unmarks a lab as completed for a student on behalf of a staff member
+ *
+ * @param userId - The Discord user ID of the staff member
+ * @param classroom - The classroom
+ * @param action - Whether to mark or unmark the completion
+ * @param studentId - The Discord user ID of the student
+ * @param lab - The lab
+ * @param reason - Why the completion is changed
+ * @returns A message describing the outcome for the staff member
+ */
+function applyOverride(
+  userId: string,
+  classroom: Classroom,
+  action: CompletionOverride["action"],
+  studentId: string,
+  lab: LabSession,
+  reason: string,
+): string {
+  const student = classroom.getStudent(studentId);
+  if (!student) {
+    return `<@${studentId}> is not a student of this classroom.`;
+  }
+
+  // Group labs pass the change on to the teammates who completed through the student
+  const before = classroom.countCompletions(lab.id);
+  if (action === "mark") {
+    if (!classroom.overrides.mark(studentId, lab.id, userId, reason)) {
+      return `${student.name} has already completed "${lab.name}".`;
+    }
+  } else if (!classroom.overrides.unmark(studentId, lab.id, userId, reason)) {
+    return `${student.name} has not completed "${lab.name}".`;
+  }
+  const teammates = Math.abs(classroom.countCompletions(lab.id) - before) - 1;
+
+  logger.command(
+    `${userId} ${action === "mark" ? "marked" : "unmarked"} lab "${lab.name}" for ${student.name} in ${classroom.name}: ${reason}`,
+  );
+  return (
+    `${action === "mark" ? "Marked" : "Unmarked"} "${lab.name}" as completed for ${student.name}` +
+    (teammates > 0
+      ? ` and ${teammates} teammate${teammates !== 1 ? "s" : ""}.`
+      : ".")
+  );
+}
@@ -0,0 +1,363 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  SlashCommandBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from "discord.js";
+import {
+  classrooms,
+  type Classroom,
+  type LabSession,
+} from "../models/classroom.js";
+import { formatList } from "../utils/format.js";
+import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
+
+// Longest comment accepted for a peer review
+const MAX_COMMENT_LENGTH = 1000;
+
+export const peerReviewCommand = {
+  data: new SlashCommandBuilder()
+    .setName("peer-review")
+    .setDescription("Let students review each other's work on an ended lab")
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("start")
+        .setDescription(
+          "Pair everyone who completed the lab with a reviewer from another group",
+        )
+        .addStringOption((option) =>
+          option
+            .setName("lab")
+            .setDescription("The lab (default: the latest ended lab)")
+            .setAutocomplete(true)
+            .setRequired(false),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("results")
+        .setDescription("Show the ratings and comments of a lab's peer reviews")
+        .addStringOption((option) =>
+          option
+            .setName("lab")
+            .setDescription("The lab (default: the latest ended lab)")
+            .setAutocomplete(true)
+            .setRequired(false),
+        ),
+    ),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    try {
+      const context = await resolveClassroom(interaction, "instructor");
+      if (!context) {
+        return;
+      }
+      const { classroom } = context;
+
+      const labOption = interaction.options.getString("lab");
+      const lab = findEndedLab(classroom, labOption);
+
+      if (!lab) {
+        return await interaction.reply({
+          content: labOption
+            ? `No ended lab named "${classroom.getLab(labOption)?.name ?? labOption}" was found in this classroom.`
+            : "No lab has ended in this classroom yet.",
+          flags: "Ephemeral",
+        });
+      }
+
+      if (interaction.options.getSubcommand() === "start") {
+        return await startPeerReview(interaction, classroom, lab);
+      }
+      await showPeerReviewResults(interaction, classroom, lab);
+    } catch (error) {
+      logger.command(`Error in peer-review command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while managing peer reviews.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
+
+/**
+ * Assigns the peer reviews of a lab and sends every reviewer the work to review by DM
+ *
+ * @param interaction - The command interaction
+ * @param classroom - The classroom of the lab
+ * @param lab - The ended lab to review
+ */
+async function startPeerReview(
+  interaction: ChatInputCommandInteraction,
+  classroom: Classroom,
+  lab: LabSession,
+) {
+  if (classroom.peerReviews.getForLab(lab.id).length > 0) {
+    return await interaction.reply({
+      content: `Peer reviews of "${lab.name}" were already assigned. Use \`/peer-review results\` to see them.`,
+      flags: "Ephemeral",
+    });
+  }
+
+  const completed = classroom.countCompletions(lab.id);
+  const reviews = classroom.peerReviews.assign(lab.id);
+  if (reviews.length === 0) {
+    return await interaction.reply({
+      content: `No reviewers from other groups could be found for the ${completed} student${completed !== 1 ? "s" : ""} who completed "${lab.name}".`,
+      flags: "Ephemeral",
+    });
+  }
+
+  // Sending DMs to a whole class takes a while
+  await interaction.deferReply({ flags: "Ephemeral" });
+
+  let failed = 0;
+  for (const review of reviews) {
+    const reviewee = classroom.getStudent(review.revieweeId);
+    const content = classroom.getSubmissionContent(lab.id, review.revieweeId);
+
+    const embed = new EmbedBuilder()
+      .setTitle(`Peer Review: ${lab.name}`)
+      .setDescription(
+        `You have been asked to review the work of **${reviewee?.name}** on "${lab.name}" in ${classroom.name}.\n\n` +
+          (content
+            ? `**Submission:** ${content}`
+            : `No submission was recorded, so ask <@${review.revieweeId}> to show you their work.`) +
+          "\n\nClick the button below to rate it from 1 to 5 and leave a comment.",
+      )
+      .setColor("#0099FF")
+      .setTimestamp();
+
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`peer_review:${review.id}:${classroom.id}`)
+        .setLabel("Write Review")
+        .setStyle(ButtonStyle.Primary),
+    );
+
+    // Skip students who do not accept DMs, their reviews stay open
+    try {
+      await interaction.client.users.send(review.reviewerId, {
+        embeds: [embed],
+        components: [row],
+      });
+    } catch (error) {
+      failed++;
+      logger.command(
+        `Failed to send peer review ${review.id} to ${review.reviewerId}: %O`,
+        error,
+      );
+    }
+  }
+
+  logger.command(
+    `${interaction.user.tag} assigned ${reviews.length} peer review(s) for lab "${lab.name}" in ${classroom.name}`,
+  );
+
+  // Name the students left out, so the instructor can arrange their reviews by hand
+  const unpaired = classroom.students
+    .filter(
+      (student) =>
+        student.completedLabs.has(lab.id) &&
+        !reviews.some((review) => review.revieweeId === student.id),
+    )
+    .map((student) => `- ${student.name}`);
+  await interaction.editReply({
+    content:
+      `Assigned ${reviews.length} peer review${reviews.length !== 1 ? "s" : ""} for "${lab.name}", each with a reviewer from another group.` +
+      (failed > 0
+        ? `\n${failed} reviewer${failed !== 1 ? "s" : ""} could not be sent a DM.`
+        : "") +
+      (unpaired.length > 0
+        ? `\n${unpaired.length} student${unpaired.length !== 1 ? "s" : ""} could not be paired, as everyone else who completed the lab is in their group:\n${formatList(unpaired, 1500)}`
+        : ""),
+  });
+}
+
+/**
+ * Replies with the aggregated ratings and the comments of a lab's peer reviews
+ *
+ * @param interaction - The command interaction
+ * @param classroom - The classroom of the lab
+ * @param lab - The reviewed lab
+ */
+async function showPeerReviewResults(
+  interaction: ChatInputCommandInteraction,
+  classroom: Classroom,
+  lab: LabSession,
+) {
+  const reviews = classroom.peerReviews.getForLab(lab.id);
+  if (reviews.length === 0) {
+    return await interaction.reply({
+      content: `No peer reviews were assigned for "${lab.name}". Use \`/peer-review start\` first.`,
+      flags: "Ephemeral",
+    });
+  }
+
+  const summary = classroom.peerReviews.getSummary(lab.id);
+  const name = (studentId: string) =>
+    classroom.getStudent(studentId)?.name ?? studentId;
+
+  const lines = reviews.map((review) =>
+    review.submittedAt
+      ? `- **${name(review.revieweeId)}**: ${"⭐".repeat(review.rating!)} by ${name(review.reviewerId)}${review.comment ? `: ${review.comment}` : ""}`
+      : `- **${name(review.revieweeId)}**: ⏳ waiting for ${name(review.reviewerId)}`,
+  );
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Peer Reviews: ${lab.name}`)
+    .setDescription(
+      `**Submitted:** ${summary.submitted}/${summary.assigned} reviews\n` +
+        `**Average rating:** ${summary.averageRating !== null ? `${summary.averageRating.toFixed(1)}/5` : "No ratings yet"}\n\n` +
+        formatList(lines, 3500),
+    )
+    .setColor("#0099FF")
+    .setTimestamp();
+
+  await interaction.reply({ embeds: [embed], flags: "Ephemeral" });
+}
+
+/**
+ * Handles the button of a peer review DM by asking for the rating and comment
+ *
+ * @param interaction - The button interaction
+ * @param params - The review ID and thread ID from the customId
+ */
+export async function handlePeerReviewButton(
+  interaction: ButtonInteraction,
+  params: string[],
+) {
+  const [reviewId, threadId] = params;
+  const classroom = classrooms.get(threadId);
+  const review = classroom?.peerReviews.get(reviewId);
+
+  if (!classroom || !review || review.reviewerId !== interaction.user.id) {
+    return await interaction.reply({
+      content: "This peer review no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  if (review.submittedAt) {
+    return await interaction.reply({
+      content: "You have already submitted this peer review.",
+      flags: "Ephemeral",
+    });
+  }
+
+  await interaction.showModal(
+    new ModalBuilder()
+      .setCustomId(`peer_review_submit:${reviewId}:${threadId}`)
+      .setTitle(
+        `Review: ${classroom.getStudent(review.revieweeId)?.name}`.slice(0, 45),
+      )
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId("rating")
+            .setLabel("Rating from 1 (poor) to 5 (excellent)")
+            .setStyle(TextInputStyle.Short)
+            .setMinLength(1)
+            .setMaxLength(1)
+            .setRequired(true),
+        ),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId("comment")
+            .setLabel("Comment")
+            .setStyle(TextInputStyle.Paragraph)
+            .setMaxLength(MAX_COMMENT_LENGTH)
+            .setRequired(true),
+        ),
+      ),
+  );
+}
+
+/**
+ * Records the rating and comment of a peer review from its modal
+ *
+ * @param interaction - The modal submit interaction
+ * @param params - The review ID and thread ID from the customId
+ */
+export async function handlePeerReviewSubmit(
+  interaction: ModalSubmitInteraction,
+  params: string[],
+) {
+  const [reviewId, threadId] = params;
+  const classroom = classrooms.get(threadId);
+
+  if (!classroom) {
+    logger.interaction(`Classroom not found for thread ID: ${threadId}`);
+    return await interaction.reply({
+      content: "This classroom no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  const rating = Number(interaction.fields.getTextInputValue("rating").trim());
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    return await interaction.reply({
+      content:
+        "The rating must be a whole number from 1 to 5. Click the button again to retry.",
+      flags: "Ephemeral",
+    });
+  }
+
+  const review = classroom.peerReviews.submit(
+    reviewId,
+    interaction.user.id,
+    rating,
+    interaction.fields.getTextInputValue("comment").trim(),
+  );
+  if (!review) {
+    return await interaction.reply({
+      content: "This peer review has already been submitted.",
+      flags: "Ephemeral",
+    });
+  }
+
+  logger.interaction(
+    `User ${interaction.user.tag} submitted peer review ${reviewId}`,
+  );
+
+  const reply = `Thank you! Your review of ${classroom.getStudent(review.revieweeId)?.name} was recorded.`;
+  if (interaction.isFromMessage()) {
+    await interaction.update({ content: reply, components: [] });
+  } else {
+    await interaction.reply({ content: reply, flags: "Ephemeral" });
+  }
+}
+
+/**
+ * Finds the ended lab a peer review command refers to
+ * The option holds a lab ID when picked from the suggestions, or a name when typed
+ *
+ * @param classroom - The classroom
+ * @param value - The lab option, or null to use the latest ended lab
+ * @returns The ended lab if found, undefined otherwise
+ */
+function findEndedLab(
+  classroom: Classroom,
+  value: string | null,
+): LabSession | undefined {
+  const labs = classroom.labs.filter((lab) => lab.endTime !== undefined);
+  if (!value) {
+    return labs.at(-1);
+  }
+
+  return (
+    labs.find((lab) => lab.id === value) ??
+    labs
+      .filter((lab) => lab.name.toLowerCase() === value.trim().toLowerCase())
+      .at(-1)
+  );
+}
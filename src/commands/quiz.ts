@@ -0,0 +1,313 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from "discord.js";
+import { classrooms, createStudent } from "../models/classroom.js";
+import { createAutoUpdateMessage } from "../utils/autoUpdateMessage.js";
+import logger from "../utils/logger.js";
+import {
+  getPermissionDeniedMessage,
+  hasClassroomRole,
+  resolveClassroom,
+} from "../utils/permissions.js";
+import {
+  createQuizResultsEmbed,
+  endQuiz,
+  QUIZ_LETTERS,
+} from "../utils/quiz.js";
+
+// Longest time limit of a quiz, in seconds
+const MAX_TIME_LIMIT = 60 * 60; // 1 hour
+
+export const quizCommand = {
+  data: new SlashCommandBuilder()
+    .setName("quiz")
+    .setDescription("Post a multiple-choice question in this classroom")
+    .addStringOption((option) =>
+      option
+        .setName("question")
+        .setDescription("The question")
+        .setMaxLength(250)
+        .setRequired(true),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("correct")
+        .setDescription("Number of the correct choice")
+        .setMinValue(1)
+        .setMaxValue(QUIZ_LETTERS.length)
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("choice-1")
+        .setDescription("Choice A")
+        .setMaxLength(75)
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("choice-2")
+        .setDescription("Choice B")
+        .setMaxLength(75)
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("choice-3")
+        .setDescription("Choice C")
+        .setMaxLength(75)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("choice-4")
+        .setDescription("Choice D")
+        .setMaxLength(75)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("choice-5")
+        .setDescription("Choice E")
+        .setMaxLength(75)
+        .setRequired(false),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("time-limit")
+        .setDescription(
+          "Seconds until the results are revealed (default: until ended by staff)",
+        )
+        .setMinValue(10)
+        .setMaxValue(MAX_TIME_LIMIT)
+        .setRequired(false),
+    ),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    try {
+      const context = await resolveClassroom(interaction, "ta");
+      if (!context) {
+        return;
+      }
+      const { thread, classroom } = context;
+
+      const question = interaction.options.getString("question", true).trim();
+      const options = QUIZ_LETTERS.map((_, index) =>
+        interaction.options.getString(`choice-${index + 1}`)?.trim(),
+      );
+      const choices = options.filter((choice): choice is string => !!choice);
+      const correctChoice = interaction.options.getInteger("correct", true) - 1;
+      const timeLimit = interaction.options.getInteger("time-limit");
+
+      // Skipped choices would shift the letters, and with them the correct choice
+      if (
+        choices.length < 2 ||
+        correctChoice >= choices.length ||
+        options.slice(0, choices.length).some((choice) => !choice)
+      ) {
+        return await interaction.reply({
+          content: `Give at least 2 choices without skipping any, and pick the correct one among the ${choices.length} given.`,
+          flags: "Ephemeral",
+        });
+      }
+
+      // A quiz without a time limit ends when the next one is posted
+      const open = classroom.quizzes.getOpen();
+      if (open?.closesAt) {
+        return await interaction.reply({
+          content:
+            "A quiz is still open. Wait for its results before posting another.",
+          flags: "Ephemeral",
+        });
+      }
+      if (open) {
+        await endQuiz(thread, classroom, open);
+      }
+
+      const quiz = classroom.quizzes.start(
+        question,
+        choices,
+        correctChoice,
+        timeLimit ? timeLimit * 1000 : undefined,
+      );
+
+      logger.command(
+        `${interaction.user.tag} posted a quiz with ${choices.length} choices in ${classroom.name}`,
+      );
+
+      // Post the question with one button per choice for everyone in the thread
+      const embed = new EmbedBuilder()
+        .setTitle(`Quiz: ${question}`.slice(0, 256))
+        .setDescription(
+          choices
+            .map((choice, index) => `**${QUIZ_LETTERS[index]}.** ${choice}`)
+            .join("\n") +
+            "\n\nPick your answer below. Only your first answer counts." +
+            (quiz.closesAt
+              ? `\nResults are revealed <t:${Math.floor(quiz.closesAt.getTime() / 1000)}:R>.`
+              : ""),
+        )
+        .setColor("#00FF00")
+        .setTimestamp();
+
+      const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        choices.map((choice, index) =>
+          new ButtonBuilder()
+            .setCustomId(`quiz_answer:${quiz.id}:${index}:${thread.id}`)
+            .setLabel(`${QUIZ_LETTERS[index]}. ${choice}`.slice(0, 80))
+            .setStyle(ButtonStyle.Primary),
+        ),
+      );
+
+      // The quiz scheduler reveals the results once time is up
+      const message = await thread.send({ embeds: [embed], components: [row] });
+      classroom.quizzes.setMessage(quiz.id, message.id);
+
+      await createAutoUpdateMessage({
+        interaction,
+        content:
+          "Quiz posted! Results will update every 30 seconds and immediately when students answer.",
+        generateEmbed: () => createQuizResultsEmbed(classroom, quiz),
+        generateComponents: () =>
+          quiz.closedAt
+            ? []
+            : [
+                new ActionRowBuilder<ButtonBuilder>().addComponents(
+                  new ButtonBuilder()
+                    .setCustomId(`quiz_end:${quiz.id}:${thread.id}`)
+                    .setLabel("Reveal Results")
+                    .setStyle(ButtonStyle.Danger),
+                ),
+              ],
+        // Keep updating briefly after time is up, so the final results are shown
+        timeLimit: timeLimit ? (timeLimit + 30) * 1000 : undefined,
+        classroom: classroom,
+      });
+    } catch (error) {
+      logger.command(`Error in quiz command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while posting the quiz.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
+
+/**
+ * Handles a student's answer button of a quiz
+ * Only the first answer of each student is recorded
+ *
+ * @param interaction - The button interaction
+ * @param params - The quiz ID, choice index and thread ID from the customId
+ */
+export async function handleQuizAnswerButton(
+  interaction: ButtonInteraction,
+  params: string[],
+) {
+  const [quizId, choiceParam, threadId] = params;
+  const classroom = classrooms.get(threadId);
+
+  if (!classroom) {
+    logger.interaction(`Classroom not found for thread ID: ${threadId}`);
+    return await interaction.reply({
+      content: "This classroom no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  const quiz = classroom.quizzes.get(quizId);
+  if (!quiz || classroom.quizzes.getOpen() !== quiz) {
+    logger.interaction(`Quiz closed or not found: ${quizId}`);
+    return await interaction.reply({
+      content: "This quiz has closed.",
+      flags: "Ephemeral",
+    });
+  }
+
+  const userId = interaction.user.id;
+  if (!classroom.getStudent(userId)) {
+    logger.interaction(
+      `Creating new student record for user: ${interaction.user.tag}`,
+    );
+    classroom.addStudent(createStudent(userId, interaction.user.username));
+  }
+
+  const choice = Number(choiceParam);
+  const isNewAnswer = !quiz.answers.some(
+    (answer) => answer.studentId === userId,
+  );
+  const answer = classroom.quizzes.answer(quizId, userId, choice);
+  if (!answer) {
+    return await interaction.reply({
+      content: "This quiz has closed.",
+      flags: "Ephemeral",
+    });
+  }
+
+  logger.interaction(
+    `User ${interaction.user.tag} ${isNewAnswer ? "answered" : "already answered"} quiz ${quizId}`,
+  );
+
+  const chosen = `**${QUIZ_LETTERS[answer.choice]}. ${quiz.choices[answer.choice]}**`;
+  await interaction.reply({
+    content: isNewAnswer
+      ? `Your answer ${chosen} was recorded. The correct answer is revealed when the quiz closes.`
+      : `You already answered ${chosen}, only your first answer counts.`,
+    flags: "Ephemeral",
+  });
+}
+
+/**
+ * Handles the staff button that ends a quiz and reveals its results
+ *
+ * @param interaction - The button interaction
+ * @param params - The quiz ID and thread ID from the customId
+ */
+export async function handleEndQuizButton(
+  interaction: ButtonInteraction,
+  params: string[],
+) {
+  const [quizId, threadId] = params;
+  const classroom = classrooms.get(threadId);
+  const quiz = classroom?.quizzes.get(quizId);
+
+  if (!classroom || !quiz) {
+    return await interaction.reply({
+      content: "This classroom or quiz no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  if (!hasClassroomRole(interaction, classroom, "ta")) {
+    logger.interaction(
+      `${interaction.user.tag} attempted to end a quiz without permission`,
+    );
+    return await interaction.reply({
+      content: getPermissionDeniedMessage("ta"),
+      flags: "Ephemeral",
+    });
+  }
+
+  const thread = await interaction.client.channels.fetch(threadId);
+  if (!thread?.isThread()) {
+    throw new Error(`Classroom thread ${threadId} not found`);
+  }
+
+  const ended = await endQuiz(thread, classroom, quiz);
+  logger.interaction(
+    `${interaction.user.tag} ${ended ? "ended" : "attempted to end the closed"} quiz ${quizId}`,
+  );
+  await interaction.reply({
+    content: ended
+      ? "The quiz has ended and its results were posted in the thread."
+      : "This quiz has already ended.",
+    flags: "Ephemeral",
+  });
+}
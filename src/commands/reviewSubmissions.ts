@@ -0,0 +1,253 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  CommandInteraction,
+  EmbedBuilder,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  SlashCommandBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from "discord.js";
+import { classrooms, type Classroom } from "../models/classroom.js";
+import logger from "../utils/logger.js";
+import {
+  getPermissionDeniedMessage,
+  hasClassroomRole,
+  resolveClassroom,
+} from "../utils/permissions.js";
+
+export const reviewSubmissionsCommand = {
+  data: new SlashCommandBuilder()
+    .setName("review-submissions")
+    .setDescription("Review pending lab submissions in this classroom"),
+
+  async execute(interaction: CommandInteraction) {
+    try {
+      const context = await resolveClassroom(interaction, "instructor");
+      if (!context) {
+        return;
+      }
+      const { classroom } = context;
+
+      logger.command(
+        `${interaction.user.tag} started reviewing submissions in ${classroom.name}`,
+      );
+      await interaction.reply({
+        ...createReviewMessage(classroom),
+        flags: "Ephemeral",
+      });
+    } catch (error) {
+      logger.command(`Error in review-submissions command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while retrieving submissions.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
+
+/**
+ * Creates the review message for the oldest pending submission of a classroom
+ * Includes Approve and Reject buttons that open a comment modal
+ *
+ * @param classroom - The classroom whose submissions to review
+ * @param notice - Optional line shown above the submission, e.g. the result of the previous review
+ * @returns The message content, embeds and components
+ */
+function createReviewMessage(classroom: Classroom, notice?: string) {
+  const pending = classroom.getPendingSubmissions();
+  const prefix = notice ? `${notice}\n` : "";
+
+  if (pending.length === 0) {
+    return {
+      content: `${prefix}There are no submissions waiting for review.`,
+      embeds: [],
+      components: [],
+    };
+  }
+
+  const submission = pending[0];
+  const student = classroom.getStudent(submission.studentId);
+  const lab = classroom.getLab(submission.labId);
+  const groupInfo = student?.group
+    ? ` (${classroom.getGroupName(student.group)})`
+    : "";
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Submission: ${lab?.name ?? "Unknown lab"}`)
+    .addFields(
+      {
+        name: "Student",
+        value: `${student?.name ?? "Unknown student"}${groupInfo}`,
+        inline: true,
+      },
+      {
+        name: "Submitted",
+        value: `<t:${Math.floor(submission.submittedAt.getTime() / 1000)}:R>`,
+        inline: true,
+      },
+      { name: "Content", value: submission.content.slice(0, 1024) },
+    )
+    .setColor("#0099FF")
+    .setTimestamp();
+
+  const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`review_submission:approve:${submission.id}:${classroom.id}`)
+      .setLabel("Approve")
+      .setStyle(ButtonStyle.Success),
+    new ButtonBuilder()
+      .setCustomId(`review_submission:reject:${submission.id}:${classroom.id}`)
+      .setLabel("Reject")
+      .setStyle(ButtonStyle.Danger),
+  );
+
+  return {
+    content: `${prefix}${pending.length} submission${pending.length !== 1 ? "s" : ""} waiting for review.`,
+    embeds: [embed],
+    components: [row],
+  };
+}
+
+/**
+ * Handles the Approve and Reject buttons of the review message
+ * Opens a modal asking the reviewer for a comment
+ *
+ * @param interaction - The Discord button interaction object
+ * @param params - Parameters extracted from the button's customId [decision, submissionId, threadId]
+ */
+export async function handleReviewButton(
+  interaction: ButtonInteraction,
+  params: string[],
+) {
+  const [decision, submissionId, threadId] = params;
+  const classroom = classrooms.get(threadId);
+
+  if (!classroom) {
+    logger.interaction(`Classroom not found for thread ID: ${threadId}`);
+    return await interaction.update({
+      content: "This classroom no longer exists.",
+      embeds: [],
+      components: [],
+    });
+  }
+
+  if (!hasClassroomRole(interaction, classroom, "instructor")) {
+    logger.interaction(
+      `${interaction.user.tag} attempted to review a submission without permission`,
+    );
+    return await interaction.reply({
+      content: getPermissionDeniedMessage("instructor"),
+      flags: "Ephemeral",
+    });
+  }
+
+  const submission = classroom.submissions.find(
+    (submission) => submission.id === submissionId,
+  );
+  if (!submission || submission.status !== "pending") {
+    logger.interaction(`Submission ${submissionId} is no longer pending`);
+    return await interaction.update(
+      createReviewMessage(
+        classroom,
+        "That submission has already been reviewed.",
+      ),
+    );
+  }
+
+  const isReject = decision === "reject";
+  const modal = new ModalBuilder()
+    .setCustomId(`review_comment:${decision}:${submissionId}:${threadId}`)
+    .setTitle(isReject ? "Reject Submission" : "Approve Submission")
+    .addComponents(
+      new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId("comment")
+          .setLabel(
+            isReject ? "What should the student fix?" : "Comment (optional)",
+          )
+          .setStyle(TextInputStyle.Paragraph)
+          .setMaxLength(1000)
+          .setRequired(isReject),
+      ),
+    );
+
+  await interaction.showModal(modal);
+}
+
+/**
+ * Handles the comment modal of a submission review
+ * Records the review, notifies the student and shows the next pending submission
+ *
+ * @param interaction - The Discord modal submit interaction object
+ * @param params - Parameters extracted from the modal's customId [decision, submissionId, threadId]
+ */
+export async function handleReviewCommentSubmit(
+  interaction: ModalSubmitInteraction,
+  params: string[],
+) {
+  const [decision, submissionId, threadId] = params;
+  const classroom = classrooms.get(threadId);
+
+  if (!classroom) {
+    logger.interaction(`Classroom not found for thread ID: ${threadId}`);
+    return await interaction.reply({
+      content: "This classroom no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  if (!hasClassroomRole(interaction, classroom, "instructor")) {
+    logger.interaction(
+      `${interaction.user.tag} attempted to review a submission without permission`,
+    );
+    return await interaction.reply({
+      content: getPermissionDeniedMessage("instructor"),
+      flags: "Ephemeral",
+    });
+  }
+
+  const comment = interaction.fields.getTextInputValue("comment").trim();
+  const submission = classroom.reviewSubmission(
+    submissionId,
+    interaction.user.id,
+    decision === "approve",
+    comment,
+  );
+
+  let notice = "That submission has already been reviewed.";
+  if (submission) {
+    const student = classroom.getStudent(submission.studentId);
+    const lab = classroom.getLab(submission.labId);
+    notice = `${submission.status === "approved" ? "Approved" : "Rejected"} the submission of ${student?.name ?? "the student"}.`;
+
+    logger.interaction(
+      `User ${interaction.user.tag} ${submission.status} submission ${submissionId}`,
+    );
+
+    // Let the student know the outcome, ignoring users who do not accept DMs
+    try {
+      await interaction.client.users.send(
+        submission.studentId,
+        submission.status === "approved"
+          ? `Your submission for "${lab?.name}" in ${classroom.name} was approved!${comment ? `\n>>> ${comment}` : ""}`
+          : `Your submission for "${lab?.name}" in ${classroom.name} was rejected. Please fix it and submit again.${comment ? `\n>>> ${comment}` : ""}`,
+      );
+    } catch (error) {
+      logger.interaction(
+        `Failed to notify ${submission.studentId} of their review: %O`,
+        error,
+      );
+    }
+  }
+
+  if (interaction.isFromMessage()) {
+    await interaction.update(createReviewMessage(classroom, notice));
+  } else {
+    await interaction.reply({ content: notice, flags: "Ephemeral" });
+  }
+}
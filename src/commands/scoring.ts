@@ -0,0 +1,136 @@
+import {
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+import {
+  getScoringRules,
+  resetScoringRules,
+  setScoringRules,
+  type ScoringRules,
+} from "../models/guildSettings.js";
+import logger from "../utils/logger.js";
+
+// Options of the command, with the rule each one sets and its description
+const RULE_OPTIONS: {
+  name: string;
+  rule: keyof ScoringRules;
+  description: string;
+}[] = [
+  { name: "join", rule: "join", description: "Points for joining a classroom" },
+  {
+    name: "lab-completed",
+    rule: "labCompleted",
+    description: "Points for completing a lab",
+  },
+  {
+    name: "early-completion",
+    rule: "earlyCompletion",
+    description: "Bonus points for being among the first to complete a lab",
+  },
+  {
+    name: "early-count",
+    rule: "earlyCompletionCount",
+    description: "Number of students who get the early completion bonus",
+  },
+  {
+    name: "helping",
+    rule: "helping",
+    description: "Points for being thanked by a classmate",
+  },
+  {
+    name: "attendance-on-time",
+    rule: "attendanceOnTime",
+    description: "Points for checking in to attendance on time",
+  },
+  {
+    name: "attendance-late",
+    rule: "attendanceLate",
+    description: "Points for checking in to attendance late",
+  },
+];
+
+// Largest value of any rule
+const MAX_RULE_VALUE = 100;
+
+const data = new SlashCommandBuilder()
+  .setName("scoring")
+  .setDescription(
+    "Show or change how many participation points this server awards",
+  )
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild);
+
+for (const { name, description } of RULE_OPTIONS) {
+  data.addIntegerOption((option) =>
+    option
+      .setName(name)
+      .setDescription(description)
+      .setMinValue(0)
+      .setMaxValue(MAX_RULE_VALUE)
+      .setRequired(false),
+  );
+}
+
+data.addBooleanOption((option) =>
+  option
+    .setName("reset")
+    .setDescription("Restore the default rules before applying any changes")
+    .setRequired(false),
+);
+
+export const scoringCommand = {
+  data,
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    try {
+      if (!interaction.guildId) {
+        return await interaction.reply({
+          content: "Scoring rules can only be configured in servers.",
+          flags: "Ephemeral",
+        });
+      }
+
+      const reset = interaction.options.getBoolean("reset") ?? false;
+      if (reset) {
+        resetScoringRules(interaction.guildId);
+      }
+
+      const changes: Partial<ScoringRules> = {};
+      for (const { name, rule } of RULE_OPTIONS) {
+        const value = interaction.options.getInteger(name);
+        if (value !== null) {
+          changes[rule] = value;
+        }
+      }
+
+      const rules =
+        Object.keys(changes).length > 0
+          ? setScoringRules(interaction.guildId, changes)
+          : getScoringRules(interaction.guildId);
+
+      const embed = new EmbedBuilder()
+        .setTitle("Scoring Rules")
+        .setDescription(
+          RULE_OPTIONS.map(
+            ({ rule, description }) => `**${description}:** ${rules[rule]}`,
+          ).join("\n") +
+            "\n\nChanges apply to activity from now on; points already awarded are kept.",
+        )
+        .setColor("#0099FF")
+        .setTimestamp();
+
+      logger.command(
+        `${interaction.user.tag} ${reset || Object.keys(changes).length > 0 ? "changed" : "viewed"} the scoring rules of guild ${interaction.guildId}`,
+      );
+      await interaction.reply({ embeds: [embed], flags: "Ephemeral" });
+    } catch (error) {
+      logger.command(`Error in scoring command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while updating the scoring rules.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
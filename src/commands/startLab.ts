@@ -6,9 +6,30 @@ import {
   EmbedBuilder,
   SlashCommandBuilder,
 } from "discord.js";
-import { classrooms } from "../models/classroom.js";
+import {
+  type Classroom,
+  type GroupCompletionMode,
+  type LabSession,
+  MAX_ANSWER_LENGTH,
+} from "../models/classroom.js";
 import { createAutoUpdateMessage } from "../utils/autoUpdateMessage.js";
+import { formatSections } from "../utils/format.js";
+import { createStepFunnelDescription } from "../utils/labFunnel.js";
 import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
+import { createTeamCompletionDescription } from "../utils/teamCompletion.js";
+
+// Maximum number of checkpoints, so that their buttons fit in two rows
+const MAX_STEPS = 10;
+
+// Longest time until a deadline, well within the range of timers
+const MAX_DURATION_MINUTES = 7 * 24 * 60; // 1 week
+
+// Minutes before the deadline at which reminders are posted by default
+const DEFAULT_REMINDERS = "10,2";
+
+// Percentage of completions at which staff are alerted to students still working by default
+const DEFAULT_ALERT_SHARE = 60;
 
 export const startLabCommand = {
   data: new SlashCommandBuilder()
@@ -19,55 +40,294 @@ export const startLabCommand = {
         .setName("lab-name")
         .setDescription("Name of the lab session")
         .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("steps")
+        .setDescription(
+          `Ordered checkpoint names separated by semicolons (up to ${MAX_STEPS})`,
+        )
+        .setRequired(false),
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName("require-submission")
+        .setDescription(
+          "Require students to submit their work for review to complete the lab",
+        )
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("answer")
+        .setDescription(
+          "Expected final answer, checked automatically (only a hash is stored)",
+        )
+        .setMaxLength(MAX_ANSWER_LENGTH)
+        .setRequired(false),
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName("lock-groups")
+        .setDescription(
+          "Lock groups while the lab runs, so switching requires approval",
+        )
+        .setRequired(false),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("duration")
+        .setDescription("Minutes until the lab is due")
+        .setMinValue(1)
+        .setMaxValue(MAX_DURATION_MINUTES)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("end-time")
+        .setDescription(
+          'When the lab is due, e.g. "15:30" or "2025-05-01 15:30" (bot\'s time zone)',
+        )
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("reminders")
+        .setDescription(
+          `Minutes before the deadline to post reminders, comma-separated (default: ${DEFAULT_REMINDERS})`,
+        )
+        .setRequired(false),
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName("accept-late")
+        .setDescription(
+          "Keep the lab open after the deadline and mark completions as late",
+        )
+        .setRequired(false),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("stuck-alert-share")
+        .setDescription(
+          `Alert staff to students still working once this % has completed (default: ${DEFAULT_ALERT_SHARE}, 0 to disable)`,
+        )
+        .setMinValue(0)
+        .setMaxValue(100)
+        .setRequired(false),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("stuck-alert-after")
+        .setDescription(
+          "Alert staff to students still working this many minutes after the start",
+        )
+        .setMinValue(1)
+        .setMaxValue(MAX_DURATION_MINUTES)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("group-mode")
+        .setDescription(
+          "Let groups complete the lab together (default: individual)",
+        )
+        .addChoices(
+          { name: "Individual", value: "individual" },
+          { name: "One member completes for the group", value: "one" },
+          { name: "Every member must complete", value: "all" },
+        )
+        .setRequired(false),
     ),
 
   async execute(interaction: CommandInteraction) {
     try {
-      if (!interaction.channel || !interaction.channel.isThread()) {
+      const context = await resolveClassroom(interaction, "instructor");
+      if (!context) {
+        return;
+      }
+      const { thread, classroom } = context;
+
+      if (classroom.activeLabSession) {
         return await interaction.reply({
-          content: "This command can only be used in classroom threads.",
+          content: `There is already an active lab session: "${classroom.activeLabSession.name}"`,
           flags: "Ephemeral",
         });
       }
 
-      const threadId = interaction.channel.id;
-      const classroom = classrooms.get(threadId);
+      const labName = interaction.options.get("lab-name")!.value as string;
+      const steps = ((interaction.options.get("steps")?.value as string) || "")
+        .split(";")
+        .map((step) => step.trim())
+        .filter((step) => step.length > 0);
 
-      if (!classroom) {
+      if (steps.length > MAX_STEPS) {
         return await interaction.reply({
-          content: "This thread is not a registered classroom.",
+          content: `A lab can have at most ${MAX_STEPS} checkpoints.`,
           flags: "Ephemeral",
         });
       }
 
-      if (classroom.activeLabSession) {
+      const requireSubmission =
+        (interaction.options.get("require-submission")?.value as boolean) ||
+        false;
+      const answer = interaction.options.get("answer")?.value as
+        | string
+        | undefined;
+
+      // Completion is decided by exactly one of: the student, a reviewer, or the answer key
+      if (requireSubmission && answer) {
         return await interaction.reply({
-          content: `There is already an active lab session: "${classroom.activeLabSession.name}"`,
+          content: "Please choose only one of require-submission and answer.",
           flags: "Ephemeral",
         });
       }
 
-      const labName = interaction.options.get("lab-name")!.value as string;
+      const lockGroups =
+        (interaction.options.get("lock-groups")?.value as boolean) || false;
+
+      // The deadline is given either as a duration or as an end time
+      const duration = interaction.options.get("duration")?.value as
+        | number
+        | undefined;
+      const endTime = interaction.options.get("end-time")?.value as
+        | string
+        | undefined;
+
+      if (duration && endTime) {
+        return await interaction.reply({
+          content: "Please choose only one of duration and end-time.",
+          flags: "Ephemeral",
+        });
+      }
 
-      const labSession = classroom.startLab(labName);
+      let deadline: Date | undefined;
+      if (duration) {
+        deadline = new Date(Date.now() + duration * 60 * 1000);
+      } else if (endTime) {
+        deadline = parseEndTime(endTime) ?? undefined;
+        const maxDeadline = Date.now() + MAX_DURATION_MINUTES * 60 * 1000;
+        if (
+          !deadline ||
+          deadline.getTime() <= Date.now() ||
+          deadline.getTime() > maxDeadline
+        ) {
+          return await interaction.reply({
+            content: `The end time must look like "15:30" or "2025-05-01 15:30" and lie within the next week.`,
+            flags: "Ephemeral",
+          });
+        }
+      }
+
+      const reminderValues = (
+        (interaction.options.get("reminders")?.value as string) ||
+        DEFAULT_REMINDERS
+      )
+        .split(",")
+        .map((value) => value.trim())
+        .filter((value) => value.length > 0);
+      const reminders = reminderValues.map(Number);
+
+      if (
+        reminders.some((minutes) => !Number.isInteger(minutes) || minutes < 1)
+      ) {
+        return await interaction.reply({
+          content:
+            "Reminders must be whole numbers of minutes separated by commas, e.g. 10,2.",
+          flags: "Ephemeral",
+        });
+      }
+
+      const acceptLate =
+        (interaction.options.get("accept-late")?.value as boolean) || false;
+      const alertShare =
+        (interaction.options.get("stuck-alert-share")?.value as number) ??
+        DEFAULT_ALERT_SHARE;
+      const alertAfter = interaction.options.get("stuck-alert-after")?.value as
+        | number
+        | undefined;
+      const groupModeOption = interaction.options.get("group-mode")?.value as
+        | string
+        | undefined;
+      const groupMode =
+        groupModeOption && groupModeOption !== "individual"
+          ? (groupModeOption as GroupCompletionMode)
+          : undefined;
+
+      const labSession = classroom.startLab(labName, {
+        steps,
+        requireSubmission,
+        answer,
+        lockGroups,
+        deadline,
+        reminders,
+        acceptLate,
+        alertShare,
+        alertAfter,
+        groupMode,
+      });
 
-      const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
-        new ButtonBuilder()
-          .setCustomId(`complete_lab:${labSession.id}:${threadId}`)
-          .setLabel("Mark as Complete")
-          .setStyle(ButtonStyle.Success),
+      const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+
+      // Create one button per checkpoint, 5 per row
+      for (let i = 0; i < steps.length; i += 5) {
+        const row = new ActionRowBuilder<ButtonBuilder>();
+        for (let step = i; step < i + 5 && step < steps.length; step++) {
+          row.addComponents(
+            new ButtonBuilder()
+              .setCustomId(
+                `complete_step:${labSession.id}:${step}:${thread.id}`,
+              )
+              .setLabel(`${step + 1}. ${steps[step]}`.slice(0, 80))
+              .setStyle(ButtonStyle.Secondary),
+          );
+        }
+        rows.push(row);
+      }
+
+      rows.push(
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+          new ButtonBuilder()
+            .setCustomId(`complete_lab:${labSession.id}:${thread.id}`)
+            .setLabel("Mark as Complete")
+            .setStyle(ButtonStyle.Success),
+          new ButtonBuilder()
+            .setCustomId(`raise_hand:${labSession.id}:${thread.id}`)
+            .setLabel("Raise Hand")
+            .setEmoji("✋")
+            .setStyle(ButtonStyle.Secondary),
+        ),
       );
 
       const embed = new EmbedBuilder()
         .setTitle(`Lab Session: ${labName}`)
-        .setDescription("Click the button below when you complete this lab.")
+        .setDescription(
+          (steps.length > 0
+            ? "Click each checkpoint below in order as you reach it, then mark the lab as complete.\n\n" +
+              steps.map((step, i) => `${i + 1}. ${step}`).join("\n")
+            : "Click the button below when you complete this lab.") +
+            (requireSubmission
+              ? "\n\nYou will be asked to submit your work, which counts once an instructor approves it."
+              : "") +
+            (answer
+              ? "\n\nYou will be asked for the final answer of the lab, which is checked automatically."
+              : "") +
+            (groupMode === "one"
+              ? "\n\nThis is a group lab: one member completes it for the whole group (the group leader, if your group has one)."
+              : "") +
+            (groupMode === "all"
+              ? "\n\nThis is a group lab: your group completes it once every member has."
+              : "") +
+            (deadline ? `\n\n${createDeadlineDescription(labSession)}` : ""),
+        )
         .setColor("#00FF00")
         .setTimestamp();
 
-      await interaction.channel.send({
+      const message = await thread.send({
         embeds: [embed],
-        components: [row],
+        components: rows,
       });
+      classroom.setLabMessage(labSession.id, message.id);
 
       await createAutoUpdateMessage({
         interaction,
@@ -88,7 +348,7 @@ export const startLabCommand = {
   },
 };
 
-function createStatusEmbed(classroom: any) {
+function createStatusEmbed(classroom: Classroom) {
   const embed = new EmbedBuilder()
     .setTitle(
       `Lab Status: ${classroom.activeLabSession?.name || "No active lab"}`,
@@ -101,30 +361,94 @@ function createStatusEmbed(classroom: any) {
     return embed;
   }
 
-  let description = `Started: ${classroom.activeLabSession.startTime.toLocaleString()}\n\n`;
+  const lab = classroom.activeLabSession;
+  let started = `Started: ${lab.startTime.toLocaleString()}`;
+  if (lab.deadline) {
+    started += `\n${createDeadlineDescription(lab)}`;
+  }
+  const sections = [started];
 
   const totalStudents = classroom.students.size;
-  const completedStudents = Array.from(classroom.students.values()).filter(
-    (student: any) => student.completedLabs.has(classroom.activeLabSession!.id),
-  ).length;
+  const completedStudents = classroom.students.filter((student) =>
+    student.completedLabs.has(lab.id),
+  ).size;
 
-  description += `**Completion Status:** ${completedStudents}/${totalStudents} students (${Math.round((completedStudents / totalStudents) * 100) || 0}%)\n\n`;
+  if (lab.groupMode) {
+    sections.push(createTeamCompletionDescription(classroom, lab));
+  } else {
+    sections.push(
+      `**Completion Status:** ${completedStudents}/${totalStudents} students (${Math.round((completedStudents / totalStudents) * 100) || 0}%)`,
+    );
+  }
 
-  if (classroom.groups > 1) {
+  if (classroom.groups > 1 && !lab.groupMode) {
+    const lines: string[] = [];
     for (let i = 1; i <= classroom.groups; i++) {
-      const groupStudents = Array.from(classroom.students.values()).filter(
-        (student: any) => student.group === i,
+      const groupStudents = classroom.students.filter(
+        (student) => student.group === i,
       );
 
-      const groupTotal = groupStudents.length;
-      const groupCompleted = groupStudents.filter((student: any) =>
-        student.completedLabs.has(classroom.activeLabSession!.id),
-      ).length;
+      const groupTotal = groupStudents.size;
+      const groupCompleted = groupStudents.filter((student) =>
+        student.completedLabs.has(lab.id),
+      ).size;
 
-      description += `**Group ${i}:** ${groupCompleted}/${groupTotal} students (${Math.round((groupCompleted / groupTotal) * 100) || 0}%)\n`;
+      lines.push(
+        `**${classroom.getGroupName(i)}:** ${groupCompleted}/${groupTotal} students (${Math.round((groupCompleted / groupTotal) * 100) || 0}%)`,
+      );
     }
+    sections.push(lines.join("\n"));
   }
 
-  embed.setDescription(description);
+  sections.push(createStepFunnelDescription(classroom, lab));
+
+  embed.setDescription(formatSections(sections));
   return embed;
 }
+
+/**
+ * Describes the deadline of a lab with a live countdown
+ *
+ * @param lab - The lab with a deadline
+ * @returns The deadline line, e.g. "⏰ Due in 10 minutes (15:30)"
+ */
+function createDeadlineDescription(lab: LabSession): string {
+  const deadline = Math.floor(lab.deadline!.getTime() / 1000);
+  return `⏰ **Due <t:${deadline}:R>** (<t:${deadline}:t>)${lab.acceptLate ? ", late completions are accepted" : ""}`;
+}
+
+/**
+ * Parses the end time of a lab in the bot's time zone
+ * A bare time refers to today, or to tomorrow if it has already passed today
+ *
+ * @param value - The end time, e.g. "15:30" or "2025-05-01 15:30"
+ * @returns The end time, or null if the value cannot be parsed
+ */
+function parseEndTime(value: string): Date | null {
+  const timeOnly = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (timeOnly) {
+    const [hours, minutes] = [Number(timeOnly[1]), Number(timeOnly[2])];
+    if (hours > 23 || minutes > 59) {
+      return null;
+    }
+
+    const date = new Date();
+    date.setHours(hours, minutes, 0, 0);
+    if (date.getTime() <= Date.now()) {
+      date.setDate(date.getDate() + 1);
+    }
+    return date;
+  }
+
+  // Date and time, with a space or "T" in between
+  const dateTime = value
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{1,2}):(\d{2})$/);
+  if (!dateTime) {
+    return null;
+  }
+
+  const [year, month, day, hours, minutes] = dateTime.slice(1).map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes);
+  return date.getDate() === day && date.getHours() === hours ? date : null;
+}
@@ -0,0 +1,118 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  CommandInteraction,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from "discord.js";
+import {
+  closeAttendanceMessage,
+  createAttendanceEmbed,
+} from "../utils/attendance.js";
+import { createAutoUpdateMessage } from "../utils/autoUpdateMessage.js";
+import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
+
+export const takeAttendanceCommand = {
+  data: new SlashCommandBuilder()
+    .setName("take-attendance")
+    .setDescription("Post a check-in button for attendance in this classroom")
+    .addIntegerOption((option) =>
+      option
+        .setName("window")
+        .setDescription("How long check-ins count as on time (in minutes)")
+        .setMinValue(1)
+        .setMaxValue(120)
+        .setRequired(false),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("late-window")
+        .setDescription(
+          "How long late check-ins are accepted afterwards (in minutes)",
+        )
+        .setMinValue(0)
+        .setMaxValue(120)
+        .setRequired(false),
+    ),
+
+  async execute(interaction: CommandInteraction) {
+    try {
+      const context = await resolveClassroom(interaction, "ta");
+      if (!context) {
+        return;
+      }
+      const { thread, classroom } = context;
+
+      if (classroom.attendance.getOpen()) {
+        return await interaction.reply({
+          content:
+            "An attendance session is already open. Wait for it to close before starting another.",
+          flags: "Ephemeral",
+        });
+      }
+
+      const windowMinutes =
+        (interaction.options.get("window")?.value as number) || 10;
+      const lateMinutes =
+        (interaction.options.get("late-window")?.value as number | undefined) ??
+        10;
+
+      const session = classroom.attendance.start(
+        windowMinutes * 60 * 1000,
+        lateMinutes * 60 * 1000,
+      );
+      const toTimestamp = (date: Date) =>
+        `<t:${Math.floor(date.getTime() / 1000)}:t>`;
+
+      logger.command(
+        `${interaction.user.tag} started attendance in ${classroom.name} (${windowMinutes} + ${lateMinutes} minutes)`,
+      );
+
+      // Post the check-in button for everyone in the thread
+      const embed = new EmbedBuilder()
+        .setTitle("Attendance Check-In")
+        .setDescription(
+          `Click the button below to check in.\n\n` +
+            `On time until ${toTimestamp(session.lateAfter)}` +
+            (lateMinutes > 0
+              ? `, late check-ins accepted until ${toTimestamp(session.closesAt)}.`
+              : "."),
+        )
+        .setColor("#00FF00")
+        .setTimestamp();
+
+      const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(`check_in:${session.id}:${thread.id}`)
+          .setLabel("Check In")
+          .setStyle(ButtonStyle.Success),
+      );
+
+      const message = await thread.send({ embeds: [embed], components: [row] });
+      classroom.attendance.setMessage(session.id, message.id);
+
+      // Disable the button once check-in closes completely
+      setTimeout(
+        () => closeAttendanceMessage(thread, session),
+        session.closesAt.getTime() - Date.now(),
+      );
+
+      await createAutoUpdateMessage({
+        interaction,
+        content: `Attendance is open. Results will update every 30 seconds and immediately when students check in.`,
+        generateEmbed: () => createAttendanceEmbed(classroom, session),
+        timeLimit: session.closesAt.getTime() - session.startTime.getTime(),
+        classroom: classroom,
+      });
+    } catch (error) {
+      logger.command(`Error in take-attendance command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while taking attendance.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
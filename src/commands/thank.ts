@@ -0,0 +1,66 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from "discord.js";
+import logger from "../utils/logger.js";
+import { resolveClassroom } from "../utils/permissions.js";
+
+export const thankCommand = {
+  data: new SlashCommandBuilder()
+    .setName("thank")
+    .setDescription("Thank a classmate who helped you")
+    .addUserOption((option) =>
+      option
+        .setName("classmate")
+        .setDescription("The classmate who helped you")
+        .setRequired(true),
+    ),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    try {
+      const context = await resolveClassroom(interaction);
+      if (!context) {
+        return;
+      }
+      const { classroom } = context;
+
+      const classmate = interaction.options.getUser("classmate", true);
+
+      if (!classroom.getStudent(interaction.user.id)) {
+        return await interaction.reply({
+          content: "Join a group in this classroom before thanking classmates.",
+          flags: "Ephemeral",
+        });
+      }
+
+      if (
+        classmate.id === interaction.user.id ||
+        !classroom.getStudent(classmate.id)
+      ) {
+        return await interaction.reply({
+          content: "You can only thank other students of this classroom.",
+          flags: "Ephemeral",
+        });
+      }
+
+      if (!classroom.participation.thank(interaction.user.id, classmate.id)) {
+        return await interaction.reply({
+          content: `You already thanked ${classmate.username} today.`,
+          flags: "Ephemeral",
+        });
+      }
+
+      logger.command(
+        `${interaction.user.tag} thanked ${classmate.tag} in ${classroom.name}`,
+      );
+      await interaction.reply({
+        content: `🙏 <@${interaction.user.id}> thanked <@${classmate.id}> for their help!`,
+        allowedMentions: { users: [classmate.id] },
+      });
+    } catch (error) {
+      logger.command(`Error in thank command: %O`, error);
+      console.error(error);
+      await interaction.reply({
+        content: "An error occurred while sending your thanks.",
+        flags: "Ephemeral",
+      });
+    }
+  },
+};
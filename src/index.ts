@@ -13,9 +13,20 @@ import { bevyFunctions } from "./ai/functions/bevy.js";
 import { selfieFunctions } from "./ai/functions/selfie.js";
 import { registerCommands } from "./commands/index.js";
 import { handleInteraction } from "./interactions.js";
+import { flushStorage, initStorage } from "./models/storage.js";
+import { initStudentIndex } from "./models/studentIndex.js";
+import {
+  handleThreadDelete,
+  handleThreadUpdate,
+} from "./utils/classroomArchive.js";
+import { initGroupSpaces } from "./utils/groupSpaces.js";
 import { generateInviteLink } from "./utils/inviteLink.js";
+import { initLabScheduler } from "./utils/labScheduler.js";
 import logger from "./utils/logger.js";
 import { fetchConversationContext } from "./utils/messageContext.js";
+import { initPoints } from "./utils/points.js";
+import { initQuizScheduler } from "./utils/quiz.js";
+import { initStuckAlerts } from "./utils/stuckAlerts.js";
 
 /**
  * Main application entry point
@@ -68,6 +79,24 @@ async function main() {
     ],
   });
 
+  // Keep group spaces, the student index, lab deadlines, quiz time limits, stuck alerts and points in sync, including for classrooms restored below
+  initGroupSpaces(client);
+  initStudentIndex();
+  initLabScheduler(client);
+  initQuizScheduler(client);
+  initStuckAlerts(client);
+  initPoints(client);
+
+  // Restore persisted classrooms before logging in, so existing buttons keep working as soon as interactions arrive
+  // Deadlines that passed while the bot was down fire on the next tick, after login has set the token their REST calls need
+  try {
+    const restored = await initStorage();
+    logger.system(`Restored ${restored} classroom(s) from storage`);
+  } catch (error) {
+    logger.system(`Failed to restore classrooms: %O`, error);
+    console.error("Error: Failed to restore classrooms:", error);
+  }
+
   // Register commands with Discord when the client is ready
   client.once(Events.ClientReady, async (readyClient) => {
     logger.system(`Ready! Logged in as ${readyClient.user.tag}`);
@@ -120,6 +149,40 @@ async function main() {
     }
   });
 
+  // Archive classrooms whose thread is archived, locked or deleted
+  client.on(Events.ThreadUpdate, async (oldThread, newThread) => {
+    try {
+      await handleThreadUpdate(oldThread, newThread);
+    } catch (error) {
+      logger.system(`Error handling thread update: %O`, error);
+      console.error("Error handling thread update:", error);
+    }
+  });
+
+  client.on(Events.ThreadDelete, async (thread) => {
+    try {
+      await handleThreadDelete(thread);
+    } catch (error) {
+      logger.system(`Error handling thread deletion: %O`, error);
+      console.error("Error handling thread deletion:", error);
+    }
+  });
+
+  // Write pending classroom changes to disk before shutting down
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, async () => {
+      logger.system(`Received ${signal}, saving classrooms before exit...`);
+      try {
+        await flushStorage();
+      } catch (error) {
+        logger.system(`Failed to save classrooms on exit: %O`, error);
+        console.error("Failed to save classrooms on exit:", error);
+      }
+      await client.destroy();
+      process.exit(0);
+    });
+  }
+
   // Log in to Discord with the client token
   logger.system("Attempting to log in to Discord...");
   try {
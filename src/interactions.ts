@@ -1,12 +1,48 @@
 import {
+  ActionRowBuilder,
   ButtonInteraction,
   Interaction,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  StringSelectMenuInteraction,
+  TextInputBuilder,
+  TextInputStyle,
   UserSelectMenuInteraction,
 } from "discord.js";
 import { handleStudentStatusSelect } from "./commands/checkStatus.js";
-import { commandHandlers } from "./commands/index.js";
-import { classrooms } from "./models/classroom.js";
+import { handleGroupRequestButton } from "./commands/groupRequests.js";
+import {
+  autocompleteHandlers,
+  commandHandlers,
+  contextMenuHandlers,
+} from "./commands/index.js";
+import {
+  handleOverrideReasonSubmit,
+  handleOverrideSelect,
+} from "./commands/overrideCompletion.js";
+import {
+  handlePeerReviewButton,
+  handlePeerReviewSubmit,
+} from "./commands/peerReview.js";
+import {
+  handleEndQuizButton,
+  handleQuizAnswerButton,
+} from "./commands/quiz.js";
+import {
+  handleReviewButton,
+  handleReviewCommentSubmit,
+} from "./commands/reviewSubmissions.js";
+import {
+  classrooms,
+  createStudent,
+  MAX_ANSWER_LENGTH,
+} from "./models/classroom.js";
 import logger from "./utils/logger.js";
+import {
+  getPermissionDeniedMessage,
+  hasClassroomRole,
+} from "./utils/permissions.js";
+import { handleStuckPingButton } from "./utils/stuckAlerts.js";
 
 /**
  * Main handler for all Discord interactions
@@ -30,6 +66,27 @@ export async function handleInteraction(interaction: Interaction) {
         );
       }
     }
+    // Handle user context menu commands
+    else if (interaction.isUserContextMenuCommand()) {
+      logger.interaction(
+        `Received context menu command: ${interaction.commandName} from ${interaction.user.tag}`,
+      );
+      const handler = contextMenuHandlers[interaction.commandName];
+      if (handler) {
+        await handler(interaction);
+      } else {
+        logger.interaction(
+          `No handler found for context menu command: ${interaction.commandName}`,
+        );
+      }
+    }
+    // Handle autocomplete of command options
+    else if (interaction.isAutocomplete()) {
+      const handler = autocompleteHandlers[interaction.commandName];
+      if (handler) {
+        await handler(interaction);
+      }
+    }
     // Handle button interactions
     else if (interaction.isButton()) {
       logger.interaction(
@@ -44,6 +101,20 @@ export async function handleInteraction(interaction: Interaction) {
       );
       await handleUserSelectMenuInteraction(interaction);
     }
+    // Handle string select menu interactions
+    else if (interaction.isStringSelectMenu()) {
+      logger.interaction(
+        `String select menu: ${interaction.customId} from ${interaction.user.tag}`,
+      );
+      await handleStringSelectMenuInteraction(interaction);
+    }
+    // Handle modal submissions
+    else if (interaction.isModalSubmit()) {
+      logger.interaction(
+        `Modal submit: ${interaction.customId} from ${interaction.user.tag}`,
+      );
+      await handleModalSubmitInteraction(interaction);
+    }
   } catch (error) {
     logger.interaction(`Error handling interaction: %O`, error);
     console.error(error);
@@ -80,9 +151,42 @@ async function handleButtonInteraction(interaction: ButtonInteraction) {
     case "join_group":
       await handleJoinGroup(interaction, params);
       break;
+    case "complete_step":
+      await handleCompleteStep(interaction, params);
+      break;
     case "complete_lab":
       await handleCompleteLab(interaction, params);
       break;
+    case "check_in":
+      await handleCheckIn(interaction, params);
+      break;
+    case "raise_hand":
+      await handleRaiseHand(interaction, params);
+      break;
+    case "help_claim":
+      await handleClaimHelp(interaction, params);
+      break;
+    case "help_resolve":
+      await handleResolveHelp(interaction, params);
+      break;
+    case "review_submission":
+      await handleReviewButton(interaction, params);
+      break;
+    case "group_request":
+      await handleGroupRequestButton(interaction, params);
+      break;
+    case "quiz_answer":
+      await handleQuizAnswerButton(interaction, params);
+      break;
+    case "quiz_end":
+      await handleEndQuizButton(interaction, params);
+      break;
+    case "peer_review":
+      await handlePeerReviewButton(interaction, params);
+      break;
+    case "stuck_ping":
+      await handleStuckPingButton(interaction, params);
+      break;
     default:
       logger.interaction(`Unknown button action: ${action}`);
       await interaction.reply({
@@ -121,6 +225,76 @@ async function handleUserSelectMenuInteraction(
   }
 }
 
+/**
+ * Handler for string select menu interactions
+ * Routes select menu interactions based on their customId prefix
+ *
+ * @param interaction - The Discord string select menu interaction object
+ */
+async function handleStringSelectMenuInteraction(
+  interaction: StringSelectMenuInteraction,
+) {
+  // Parse the action and parameters from the menu's customId
+  const [action, ...params] = interaction.customId.split(":");
+  logger.interaction(
+    `Handling string select menu action: ${action} with params: ${params.join(", ")}`,
+  );
+
+  // Route to appropriate handler based on the action
+  switch (action) {
+    case "override_completion":
+      await handleOverrideSelect(interaction, params);
+      break;
+    default:
+      logger.interaction(`Unknown string select menu action: ${action}`);
+      await interaction.reply({
+        content: `Unknown string select menu action: ${action}`,
+        flags: "Ephemeral",
+      });
+  }
+}
+
+/**
+ * Handler for modal submit interactions
+ * Routes modal submissions based on their customId prefix
+ *
+ * @param interaction - The Discord modal submit interaction object
+ */
+async function handleModalSubmitInteraction(
+  interaction: ModalSubmitInteraction,
+) {
+  // Parse the action and parameters from the modal's customId
+  const [action, ...params] = interaction.customId.split(":");
+  logger.interaction(
+    `Handling modal submit action: ${action} with params: ${params.join(", ")}`,
+  );
+
+  // Route to appropriate handler based on the action
+  switch (action) {
+    case "submit_lab":
+      await handleSubmitLab(interaction, params);
+      break;
+    case "review_comment":
+      await handleReviewCommentSubmit(interaction, params);
+      break;
+    case "answer_lab":
+      await handleAnswerLab(interaction, params);
+      break;
+    case "override_reason":
+      await handleOverrideReasonSubmit(interaction, params);
+      break;
+    case "peer_review_submit":
+      await handlePeerReviewSubmit(interaction, params);
+      break;
+    default:
+      logger.interaction(`Unknown modal submit action: ${action}`);
+      await interaction.reply({
+        content: `Unknown modal submit action: ${action}`,
+        flags: "Ephemeral",
+      });
+  }
+}
+
 /**
  * Handler for join group button interactions
  * Allows students to join a specific group in a classroom
@@ -163,14 +337,62 @@ async function handleJoinGroup(
     logger.interaction(
       `Creating new student record for user: ${interaction.user.tag}`,
     );
-    student = {
-      id: userId,
-      name: interaction.user.username,
-      completedLabs: new Set(),
-    };
+    student = createStudent(userId, interaction.user.username);
     classroom.addStudent(student);
   }
 
+  // Students pre-assigned by the class roster are placed in their roster group on their first join
+  const rosterGroup = classroom.getRosterEntry(userId)?.group;
+  if (
+    student.group === undefined &&
+    rosterGroup !== undefined &&
+    rosterGroup !== groupNum &&
+    classroom.assignStudentToGroup(userId, rosterGroup)
+  ) {
+    logger.interaction(
+      `Assigned user ${interaction.user.tag} to roster group ${rosterGroup} instead of ${groupNum}`,
+    );
+    return await interaction.reply({
+      content: `The class roster pre-assigns you to ${classroom.getGroupName(rosterGroup)}, so you have joined that group. Ask an instructor if this is wrong.`,
+      flags: "Ephemeral",
+    });
+  }
+
+  // While groups are locked, switching becomes a request for instructors to approve
+  if (
+    classroom.groupsLocked &&
+    student.group !== undefined &&
+    student.group !== groupNum
+  ) {
+    classroom.requestGroupChange(userId, groupNum);
+    logger.interaction(
+      `User ${interaction.user.tag} requested to switch to group ${groupNum} while groups are locked`,
+    );
+    return await interaction.reply({
+      content: `Groups are locked. Your request to switch from ${classroom.getGroupName(student.group)} to ${classroom.getGroupName(groupNum)} was sent to the instructors.`,
+      flags: "Ephemeral",
+    });
+  }
+
+  // Reject full groups, pointing the student to groups that still have room
+  if (student.group !== groupNum && classroom.isGroupFull(groupNum)) {
+    logger.interaction(
+      `User ${interaction.user.tag} attempted to join full group ${groupNum}`,
+    );
+    const openGroups = Array.from(
+      { length: classroom.groups },
+      (_, i) => i + 1,
+    ).filter((group) => !classroom.isGroupFull(group));
+    return await interaction.reply({
+      content:
+        `${classroom.getGroupName(groupNum)} is full (${classroom.maxGroupSize} students). ` +
+        (openGroups.length > 0
+          ? `Groups with room left: ${openGroups.map((group) => classroom.getGroupName(group)).join(", ")}.`
+          : "All groups are full, please ask an instructor for help."),
+      flags: "Ephemeral",
+    });
+  }
+
   // Assign to the selected group
   logger.interaction(
     `Assigning user ${interaction.user.tag} to group ${groupNum}`,
@@ -178,7 +400,86 @@ async function handleJoinGroup(
   classroom.assignStudentToGroup(userId, groupNum);
 
   await interaction.reply({
-    content: `You have joined Group ${groupNum} in this classroom!`,
+    content: `You have joined ${classroom.getGroupName(groupNum)} in this classroom!`,
+    flags: "Ephemeral",
+  });
+}
+
+/**
+ * Handler for complete step button interactions
+ * Allows students to mark a checkpoint of a multi-step lab as reached
+ *
+ * @param interaction - The Discord button interaction object
+ * @param params - Parameters extracted from the button's customId [labId, stepIndex, threadId]
+ */
+async function handleCompleteStep(
+  interaction: ButtonInteraction,
+  params: string[],
+) {
+  const [labId, stepStr, threadId] = params;
+  const step = parseInt(stepStr, 10);
+
+  // Get the classroom from the collection
+  const classroom = classrooms.get(threadId);
+  if (!classroom) {
+    logger.interaction(`Classroom not found for thread ID: ${threadId}`);
+    return await interaction.reply({
+      content: "This classroom no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  // Validate the lab session is active and has the requested checkpoint
+  const lab = classroom.activeLabSession;
+  if (!lab || lab.id !== labId) {
+    logger.interaction(`Invalid lab session ID: ${labId}`);
+    return await interaction.reply({
+      content: "This lab session is no longer active.",
+      flags: "Ephemeral",
+    });
+  }
+  if (!lab.steps || isNaN(step) || step < 0 || step >= lab.steps.length) {
+    logger.interaction(`Invalid step: ${stepStr}`);
+    return await interaction.reply({
+      content: "Invalid checkpoint.",
+      flags: "Ephemeral",
+    });
+  }
+
+  // Ensure student is registered
+  const userId = interaction.user.id;
+  if (!classroom.getStudent(userId)) {
+    logger.interaction(`Student not found: ${interaction.user.tag}`);
+    return await interaction.reply({
+      content:
+        "You are not registered in this classroom. Please join a group first.",
+      flags: "Ephemeral",
+    });
+  }
+
+  // Checkpoints must be reached in order
+  const progress = classroom.getStepProgress(userId, labId);
+  if (step > progress) {
+    logger.interaction(
+      `User ${interaction.user.tag} attempted to skip to step ${step + 1} from ${progress}`,
+    );
+    return await interaction.reply({
+      content: `Please reach checkpoint "${progress + 1}. ${lab.steps[progress]}" first.`,
+      flags: "Ephemeral",
+    });
+  }
+
+  classroom.completeStep(userId, step);
+
+  const remaining = lab.steps.length - Math.max(progress, step + 1);
+  await interaction.reply({
+    content:
+      step < progress
+        ? `You have already reached checkpoint "${step + 1}. ${lab.steps[step]}".`
+        : `You have reached checkpoint "${step + 1}. ${lab.steps[step]}"! ` +
+          (remaining > 0
+            ? `${remaining} checkpoint${remaining !== 1 ? "s" : ""} to go.`
+            : 'Click "Mark as Complete" to finish the lab.'),
     flags: "Ephemeral",
   });
 }
@@ -229,6 +530,89 @@ async function handleCompleteLab(
     });
   }
 
+  // In labs completed for the whole group, only the group leader may complete it if there is one
+  if (!classroom.canCompleteLab(userId, labId)) {
+    const leaderId = classroom.groupLeaders.get(student.group!)!;
+    logger.interaction(
+      `User ${interaction.user.tag} attempted to complete a group lab without being the group leader`,
+    );
+    return await interaction.reply({
+      content: `Only your group leader, ${classroom.getStudent(leaderId)?.name ?? "the leader"}, can complete this lab for your group.`,
+      flags: "Ephemeral",
+    });
+  }
+
+  // Require every checkpoint to be reached before the lab can be completed
+  const steps = classroom.activeLabSession.steps;
+  if (steps && classroom.getStepProgress(userId, labId) < steps.length) {
+    const next = classroom.getStepProgress(userId, labId);
+    logger.interaction(
+      `User ${interaction.user.tag} attempted to complete lab before reaching all checkpoints`,
+    );
+    return await interaction.reply({
+      content: `Please reach every checkpoint first. Your next checkpoint is "${next + 1}. ${steps[next]}".`,
+      flags: "Ephemeral",
+    });
+  }
+
+  // Labs in submission mode only count once an instructor approves the work
+  if (classroom.activeLabSession.requireSubmission) {
+    if (classroom.hasCompletedActiveLab(userId)) {
+      return await interaction.reply({
+        content: `Your submission for the "${classroom.activeLabSession.name}" lab has already been approved.`,
+        flags: "Ephemeral",
+      });
+    }
+
+    const pending = classroom
+      .getPendingSubmissions()
+      .find((submission) => submission.studentId === userId);
+    const input = new TextInputBuilder()
+      .setCustomId("content")
+      .setLabel("Submission URL or answer")
+      .setStyle(TextInputStyle.Paragraph)
+      .setMaxLength(1000)
+      .setRequired(true);
+    if (pending) {
+      input.setValue(pending.content);
+    }
+
+    logger.interaction(
+      `Opening submission modal for ${interaction.user.tag} in lab: ${classroom.activeLabSession.name}`,
+    );
+    return await interaction.showModal(
+      new ModalBuilder()
+        .setCustomId(`submit_lab:${labId}:${threadId}`)
+        .setTitle(`Submit: ${classroom.activeLabSession.name}`.slice(0, 45))
+        .addComponents(
+          new ActionRowBuilder<TextInputBuilder>().addComponents(input),
+        ),
+    );
+  }
+
+  // Labs with an answer key are completed by giving the right answer
+  const lab = classroom.activeLabSession;
+  if (lab.answerHash && !classroom.hasCompletedActiveLab(userId)) {
+    logger.interaction(
+      `Opening answer modal for ${interaction.user.tag} in lab: ${lab.name}`,
+    );
+    return await interaction.showModal(
+      new ModalBuilder()
+        .setCustomId(`answer_lab:${labId}:${threadId}`)
+        .setTitle(`Answer: ${lab.name}`.slice(0, 45))
+        .addComponents(
+          new ActionRowBuilder<TextInputBuilder>().addComponents(
+            new TextInputBuilder()
+              .setCustomId("answer")
+              .setLabel("Final answer of the lab")
+              .setStyle(TextInputStyle.Short)
+              .setMaxLength(MAX_ANSWER_LENGTH)
+              .setRequired(true),
+          ),
+        ),
+    );
+  }
+
   // Mark lab as completed and check if it was already completed
   const wasAlreadyCompleted = classroom.hasCompletedActiveLab(userId);
   logger.interaction(
@@ -240,7 +624,355 @@ async function handleCompleteLab(
   await interaction.reply({
     content: wasAlreadyCompleted
       ? `You have already completed the "${classroom.activeLabSession.name}" lab.`
-      : `You have completed the "${classroom.activeLabSession.name}" lab!`,
+      : classroom.activeLabSession.groupMode === "one" &&
+          student.group !== undefined
+        ? `You have completed the "${classroom.activeLabSession.name}" lab for ${classroom.getGroupName(student.group)}!`
+        : `You have completed the "${classroom.activeLabSession.name}" lab!`,
+    flags: "Ephemeral",
+  });
+}
+
+/**
+ * Handler for raise hand button interactions
+ * Puts the student into the help queue of the active lab
+ *
+ * @param interaction - The Discord button interaction object
+ * @param params - Parameters extracted from the button's customId [labId, threadId]
+ */
+async function handleRaiseHand(
+  interaction: ButtonInteraction,
+  params: string[],
+) {
+  const [labId, threadId] = params;
+
+  // Get the classroom from the collection
+  const classroom = classrooms.get(threadId);
+  if (!classroom) {
+    logger.interaction(`Classroom not found for thread ID: ${threadId}`);
+    return await interaction.reply({
+      content: "This classroom no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  // Validate the lab session is active and matches the ID
+  if (!classroom.activeLabSession || classroom.activeLabSession.id !== labId) {
+    logger.interaction(`Invalid lab session ID: ${labId}`);
+    return await interaction.reply({
+      content: "This lab session is no longer active.",
+      flags: "Ephemeral",
+    });
+  }
+
+  // Ensure student is registered
+  const userId = interaction.user.id;
+  if (!classroom.getStudent(userId)) {
+    logger.interaction(`Student not found: ${interaction.user.tag}`);
+    return await interaction.reply({
+      content:
+        "You are not registered in this classroom. Please join a group first.",
+      flags: "Ephemeral",
+    });
+  }
+
+  const isNewRequest = !classroom
+    .getHelpQueue()
+    .some((request) => request.studentId === userId);
+  const request = classroom.requestHelp(userId)!;
+  const position =
+    classroom
+      .getHelpQueue()
+      .filter((queued) => !queued.claimedBy)
+      .indexOf(request) + 1;
+
+  logger.interaction(
+    `User ${interaction.user.tag} ${isNewRequest ? "raised" : "already raised"} their hand in lab: ${classroom.activeLabSession.name}`,
+  );
+
+  await interaction.reply({
+    content: request.claimedBy
+      ? `<@${request.claimedBy}> is already on the way to help you.`
+      : `${isNewRequest ? "Your hand is raised!" : "Your hand is already raised."} You are #${position} in the help queue.`,
+    flags: "Ephemeral",
+  });
+}
+
+/**
+ * Handler for claim help button interactions
+ * Assigns the oldest waiting help request to the TA who clicked
+ *
+ * @param interaction - The Discord button interaction object
+ * @param params - Parameters extracted from the button's customId [threadId]
+ */
+async function handleClaimHelp(
+  interaction: ButtonInteraction,
+  params: string[],
+) {
+  const [threadId] = params;
+
+  // Get the classroom from the collection
+  const classroom = classrooms.get(threadId);
+  if (!classroom) {
+    logger.interaction(`Classroom not found for thread ID: ${threadId}`);
+    return await interaction.reply({
+      content: "This classroom no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  if (!hasClassroomRole(interaction, classroom, "ta")) {
+    logger.interaction(
+      `User ${interaction.user.tag} attempted to claim help without permission`,
+    );
+    return await interaction.reply({
+      content: getPermissionDeniedMessage("ta"),
+      flags: "Ephemeral",
+    });
+  }
+
+  const request = classroom.claimNextHelpRequest(interaction.user.id);
+  if (!request) {
+    return await interaction.reply({
+      content: "No one is waiting for help right now.",
+      flags: "Ephemeral",
+    });
+  }
+
+  const student = classroom.getStudent(request.studentId);
+  logger.interaction(
+    `User ${interaction.user.tag} claimed help request of ${student?.name}`,
+  );
+
+  // Let the student know help is on the way
+  if (interaction.channel?.isSendable()) {
+    await interaction.channel.send(
+      `<@${request.studentId}>, ${interaction.user} is coming to help you!`,
+    );
+  }
+
+  await interaction.reply({
+    content: `You are now helping ${student?.name ?? "the student"}. Click "Resolve Mine" when you are done.`,
+    flags: "Ephemeral",
+  });
+}
+
+/**
+ * Handler for resolve help button interactions
+ * Resolves the help request currently handled by the TA who clicked
+ *
+ * @param interaction - The Discord button interaction object
+ * @param params - Parameters extracted from the button's customId [threadId]
+ */
+async function handleResolveHelp(
+  interaction: ButtonInteraction,
+  params: string[],
+) {
+  const [threadId] = params;
+
+  // Get the classroom from the collection
+  const classroom = classrooms.get(threadId);
+  if (!classroom) {
+    logger.interaction(`Classroom not found for thread ID: ${threadId}`);
+    return await interaction.reply({
+      content: "This classroom no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  if (!hasClassroomRole(interaction, classroom, "ta")) {
+    logger.interaction(
+      `User ${interaction.user.tag} attempted to resolve help without permission`,
+    );
+    return await interaction.reply({
+      content: getPermissionDeniedMessage("ta"),
+      flags: "Ephemeral",
+    });
+  }
+
+  const request = classroom.resolveHelpRequest(interaction.user.id);
+  if (!request) {
+    return await interaction.reply({
+      content: "You are not helping anyone right now.",
+      flags: "Ephemeral",
+    });
+  }
+
+  const student = classroom.getStudent(request.studentId);
+  logger.interaction(
+    `User ${interaction.user.tag} resolved help request of ${student?.name}`,
+  );
+
+  await interaction.reply({
+    content: `Resolved the help request of ${student?.name ?? "the student"}.`,
+    flags: "Ephemeral",
+  });
+}
+
+/**
+ * Handler for lab submission modal interactions
+ * Puts the student's work into the review queue of the classroom
+ *
+ * @param interaction - The Discord modal submit interaction object
+ * @param params - Parameters extracted from the modal's customId [labId, threadId]
+ */
+async function handleSubmitLab(
+  interaction: ModalSubmitInteraction,
+  params: string[],
+) {
+  const [labId, threadId] = params;
+
+  // Get the classroom from the collection
+  const classroom = classrooms.get(threadId);
+  if (!classroom) {
+    logger.interaction(`Classroom not found for thread ID: ${threadId}`);
+    return await interaction.reply({
+      content: "This classroom no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  // Validate the lab session is still active, as it may have ended while the modal was open
+  if (!classroom.activeLabSession || classroom.activeLabSession.id !== labId) {
+    logger.interaction(`Invalid lab session ID: ${labId}`);
+    return await interaction.reply({
+      content: "This lab session is no longer active.",
+      flags: "Ephemeral",
+    });
+  }
+
+  const content = interaction.fields.getTextInputValue("content").trim();
+  const submission = classroom.submitLab(interaction.user.id, content);
+  if (!submission) {
+    return await interaction.reply({
+      content:
+        "You are not registered in this classroom. Please join a group first.",
+      flags: "Ephemeral",
+    });
+  }
+
+  logger.interaction(
+    `User ${interaction.user.tag} submitted work for lab: ${classroom.activeLabSession.name}`,
+  );
+  await interaction.reply({
+    content: `Your submission for the "${classroom.activeLabSession.name}" lab was received and is waiting for review.`,
+    flags: "Ephemeral",
+  });
+}
+
+/**
+ * Handler for lab answer modal interactions
+ * Checks the student's answer against the answer key of the lab
+ *
+ * @param interaction - The Discord modal submit interaction object
+ * @param params - Parameters extracted from the modal's customId [labId, threadId]
+ */
+async function handleAnswerLab(
+  interaction: ModalSubmitInteraction,
+  params: string[],
+) {
+  const [labId, threadId] = params;
+
+  // Get the classroom from the collection
+  const classroom = classrooms.get(threadId);
+  if (!classroom) {
+    logger.interaction(`Classroom not found for thread ID: ${threadId}`);
+    return await interaction.reply({
+      content: "This classroom no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  // Validate the lab session is still active, as it may have ended while the modal was open
+  const lab = classroom.activeLabSession;
+  if (!lab || lab.id !== labId) {
+    logger.interaction(`Invalid lab session ID: ${labId}`);
+    return await interaction.reply({
+      content: "This lab session is no longer active.",
+      flags: "Ephemeral",
+    });
+  }
+
+  const userId = interaction.user.id;
+  const answer = interaction.fields.getTextInputValue("answer");
+  const correct = classroom.checkAnswer(userId, answer);
+
+  if (correct === null) {
+    return await interaction.reply({
+      content:
+        "You are not registered in this classroom. Please join a group first.",
+      flags: "Ephemeral",
+    });
+  }
+
+  const attempts = classroom.getStudent(userId)!.failedAttempts.get(lab.id);
+  logger.interaction(
+    `User ${interaction.user.tag} answered lab ${lab.name} ${correct ? "correctly" : "wrong"}`,
+  );
+  await interaction.reply({
+    content: correct
+      ? `Correct! You have completed the "${lab.name}" lab!`
+      : `That is not the right answer (${attempts?.length ?? 0} wrong attempt${attempts?.length !== 1 ? "s" : ""} so far). Keep going, or raise your hand if you are stuck.`,
+    flags: "Ephemeral",
+  });
+}
+
+/**
+ * Handler for attendance check-in button interactions
+ * Registers students who have not joined the classroom yet, so everyone present can check in
+ *
+ * @param interaction - The Discord button interaction object
+ * @param params - Parameters extracted from the button's customId [sessionId, threadId]
+ */
+async function handleCheckIn(interaction: ButtonInteraction, params: string[]) {
+  const [sessionId, threadId] = params;
+
+  // Get the classroom from the collection
+  const classroom = classrooms.get(threadId);
+  if (!classroom) {
+    logger.interaction(`Classroom not found for thread ID: ${threadId}`);
+    return await interaction.reply({
+      content: "This classroom no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  const session = classroom.attendance.get(sessionId);
+  if (!session || session.closesAt <= new Date()) {
+    logger.interaction(`Attendance session closed or not found: ${sessionId}`);
+    return await interaction.reply({
+      content: "Check-in for this session has closed.",
+      flags: "Ephemeral",
+    });
+  }
+
+  const userId = interaction.user.id;
+  if (!classroom.getStudent(userId)) {
+    logger.interaction(
+      `Creating new student record for user: ${interaction.user.tag}`,
+    );
+    classroom.addStudent(createStudent(userId, interaction.user.username));
+  }
+
+  const isNewCheckIn = !session.checkIns.some(
+    (checkIn) => checkIn.studentId === userId,
+  );
+  const checkIn = classroom.attendance.checkIn(sessionId, userId);
+  if (!checkIn) {
+    return await interaction.reply({
+      content: "Check-in for this session has closed.",
+      flags: "Ephemeral",
+    });
+  }
+
+  logger.interaction(
+    `User ${interaction.user.tag} ${isNewCheckIn ? "checked in" : "already checked in"}${checkIn.late ? " late" : ""} to attendance ${sessionId}`,
+  );
+
+  const time = `<t:${Math.floor(checkIn.at.getTime() / 1000)}:t>`;
+  await interaction.reply({
+    content: isNewCheckIn
+      ? `You checked in at ${time}${checkIn.late ? ", which counts as late" : ""}.`
+      : `You already checked in at ${time}${checkIn.late ? " (late)" : ""}.`,
     flags: "Ephemeral",
   });
 }
@@ -1,6 +1,106 @@
 import { Collection } from "discord.js";
 import { EventEmitter } from "eventemitter3";
+import { createHash } from "node:crypto";
 import logger from "../utils/logger.js";
+import {
+  ClassroomAttendance,
+  type AttendanceSessionData,
+} from "./classroom/attendance.js";
+import {
+  ClassroomOverrides,
+  type CompletionOverrideData,
+} from "./classroom/overrides.js";
+import {
+  ClassroomParticipation,
+  type BadgeAwardData,
+  type PointAwardData,
+  type ThanksData,
+} from "./classroom/participation.js";
+import {
+  ClassroomPeerReviews,
+  type PeerReviewData,
+} from "./classroom/peerReviews.js";
+import { ClassroomQuizzes, type QuizData } from "./classroom/quizzes.js";
+
+export type {
+  AttendanceCheckIn,
+  AttendanceSession,
+  AttendanceSessionData,
+  AttendanceSummary,
+} from "./classroom/attendance.js";
+export type {
+  CompletionOverride,
+  CompletionOverrideData,
+} from "./classroom/overrides.js";
+export type {
+  BadgeAward,
+  BadgeAwardData,
+  PointAward,
+  PointAwardData,
+  PointReason,
+  Thanks,
+  ThanksData,
+} from "./classroom/participation.js";
+export type {
+  PeerReview,
+  PeerReviewData,
+  PeerReviewSummary,
+} from "./classroom/peerReviews.js";
+export type {
+  Quiz,
+  QuizAnswer,
+  QuizData,
+  QuizScore,
+} from "./classroom/quizzes.js";
+
+// Rank of each classroom role, a higher rank includes the permissions of lower ones
+const ROLE_RANK: Record<ClassroomRole, number> = {
+  ta: 1,
+  instructor: 2,
+  owner: 3,
+};
+
+// Wrong answers within this window count towards guessing
+const GUESSING_ATTEMPTS = 5;
+const GUESSING_WINDOW = 60 * 1000; // 1 minute
+
+// Wrong answers after which a student is considered stuck
+const STUCK_ATTEMPTS = 3;
+
+// Longest answer checked against an answer key
+export const MAX_ANSWER_LENGTH = 200;
+
+/**
+ * Roles that can be granted to classroom staff
+ */
+export type StaffRole = "instructor" | "ta";
+
+/**
+ * Roles of classroom staff, including the owner who created the classroom
+ */
+export type ClassroomRole = StaffRole | "owner";
+
+/**
+ * Strategies for assigning all students of a classroom to groups
+ * - balanced: shuffle everyone and deal them out evenly
+ * - fill: fill groups one after another in enrollment order
+ * - keep: keep existing members in place and spread unassigned students over the smallest groups
+ */
+export type GroupStrategy = "balanced" | "fill" | "keep";
+
+/**
+ * Kinds of private spaces that can be created for each group
+ * - thread: a private thread in the channel of the classroom thread
+ * - voice: a voice channel only visible to the group's members
+ */
+export type GroupSpaceType = "thread" | "voice";
+
+/**
+ * Ways in which groups complete a lab together
+ * - one: one member completes the lab on behalf of their group (only the leader, if the group has one)
+ * - all: the group completes the lab once every member has completed it
+ */
+export type GroupCompletionMode = "one" | "all";
 
 /**
  * Student information within a classroom
@@ -10,7 +110,57 @@ export interface Student {
   id: string; // Discord user ID
   name: string;
   group?: number; // Group assignment (optional)
-  completedLabs: Set<string>; // Set of lab IDs that the student has completed
+  completedLabs: Map<string, LabCompletion>; // Completed labs, keyed by lab ID
+  labProgress: Map<string, number>; // Number of checkpoints reached, keyed by lab ID
+  failedAttempts: Map<string, Date[]>; // Times of wrong answers, keyed by lab ID
+  groupHistory: GroupChange[]; // Every group change of the student, oldest first
+  studentNumber?: string; // University student ID (unset until linked to a roster entry)
+  realName?: string; // Real name from the roster (unset until linked to a roster entry)
+}
+
+/**
+ * A row of an imported class roster
+ */
+export interface RosterEntry {
+  studentNumber: string; // University student ID
+  realName: string;
+  discordUsername: string; // Discord username, without a leading @
+  group?: number; // Pre-assigned group (unset to let the student choose)
+  discordId?: string; // Discord user ID of the linked student (unset until matched)
+}
+
+/**
+ * A student's completion of a lab
+ */
+export interface LabCompletion {
+  completedAt?: Date; // When the lab was completed (unset for completions recorded before timestamps were tracked)
+  late?: boolean; // Whether the lab was completed after its deadline
+  group?: number; // The student's group when completing the lab (unset without a group)
+  completedBy?: string; // Discord user ID of the group member who completed the lab for the student (unset if completed by the student)
+}
+
+/**
+ * A single change of a student's group
+ */
+export interface GroupChange {
+  from?: number; // Previous group (unset if the student had none)
+  to?: number; // New group (unset if the student was removed from their group)
+  at: Date; // When the change happened
+  by?: string; // Discord user ID of the staff member who made or approved the change (unset if self-service)
+}
+
+/**
+ * A student's request to switch groups while groups are locked
+ */
+export interface GroupChangeRequest {
+  id: string; // Unique identifier for the request
+  studentId: string; // Discord user ID of the requesting student
+  from?: number; // The student's group when requesting
+  to: number; // The requested group
+  requestedAt: Date; // When the request was made
+  status: "pending" | "approved" | "rejected";
+  reviewedBy?: string; // Discord user ID of the reviewing instructor
+  reviewedAt?: Date; // When the request was reviewed
 }
 
 /**
@@ -22,34 +172,313 @@ export interface LabSession {
   name: string; // Display name of the lab
   startTime: Date; // When the lab session began
   threadId: string; // The Discord thread where this lab is running
+  endTime?: Date; // When the lab session ended (unset while active)
+  messageId?: string; // The message holding the lab's completion button
+  steps?: string[]; // Ordered checkpoint names (unset for single-step labs)
+  requireSubmission?: boolean; // Whether completion requires an approved submission
+  answerHash?: string; // Salted SHA-256 hash of the expected answer
+  deadline?: Date; // When the lab is due (unset for labs without a deadline)
+  reminders?: number[]; // Minutes before the deadline at which to post reminders, largest first
+  acceptLate?: boolean; // Whether the lab stays open after the deadline, with completions marked late
+  alertShare?: number; // Percentage of completions at which staff are alerted to students still working (unset to disable)
+  alertAfter?: number; // Minutes after the start at which staff are alerted to students still working (unset to disable)
+  alertSentAt?: Date; // When staff were alerted to students still working (unset until alerted)
+  groupMode?: GroupCompletionMode; // How groups complete the lab together (unset for individual completion)
+  lockedGroups?: boolean; // Whether the lab locked the groups as it started, so ending it unlocks them
+}
+
+/**
+ * Options for starting a lab session
+ */
+export interface LabOptions {
+  steps?: string[]; // Ordered checkpoint names
+  requireSubmission?: boolean; // Require an approved submission to complete the lab
+  answer?: string; // Expected answer, only its hash is kept
+  lockGroups?: boolean; // Lock groups as the lab starts
+  deadline?: Date; // When the lab is due
+  reminders?: number[]; // Minutes before the deadline at which to post reminders
+  acceptLate?: boolean; // Keep the lab open after the deadline, marking completions as late
+  alertShare?: number; // Alert staff to students still working once this percentage has completed
+  alertAfter?: number; // Alert staff to students still working this many minutes after the start
+  groupMode?: GroupCompletionMode; // Let groups complete the lab together
+}
+
+/**
+ * How a student's wrong answers to a lab look to TAs
+ * - guessing: many attempts in a short time, likely brute-forcing
+ * - stuck: several attempts spread over time without success
+ */
+export type AttemptPattern = "guessing" | "stuck";
+
+/**
+ * A student's request for help from a TA during a lab session
+ */
+export interface HelpRequest {
+  id: string; // Unique identifier for the request
+  studentId: string; // Discord user ID of the student asking for help
+  labId: string; // The lab session the request was raised in
+  requestedAt: Date; // When the student raised their hand
+  claimedBy?: string; // Discord user ID of the TA handling the request
+  claimedAt?: Date; // When a TA claimed the request
+  resolvedAt?: Date; // When the request was resolved
+}
+
+/**
+ * Review status of a lab submission
+ */
+export type SubmissionStatus = "pending" | "approved" | "rejected";
+
+/**
+ * A student's work submitted for instructor review
+ * Only approved submissions count as lab completion
+ */
+export interface Submission {
+  id: string; // Unique identifier for the submission
+  studentId: string; // Discord user ID of the submitting student
+  labId: string; // The lab session the submission belongs to
+  content: string; // The submitted URL or text answer
+  submittedAt: Date; // When the submission was last (re)submitted
+  status: SubmissionStatus;
+  reviewedBy?: string; // Discord user ID of the reviewing instructor
+  reviewedAt?: Date; // When the submission was reviewed
+  comment?: string; // The reviewer's feedback
+}
+
+/**
+ * Aggregated response times of the help requests of a lab session
+ */
+export interface HelpStats {
+  total: number; // Number of requests raised
+  resolved: number; // Number of requests resolved
+  averageWaitMs: number | null; // Average time from request to claim
+  averageResolutionMs: number | null; // Average time from claim to resolution
+}
+
+/**
+ * Serialized student information, as written to persistent storage
+ */
+export interface StudentData {
+  id: string;
+  name: string;
+  group?: number;
+  completedLabs: string[] | Record<string, LabCompletionData>; // Older stores only list lab IDs
+  labProgress?: Record<string, number>;
+  failedAttempts?: Record<string, string[]>; // ISO 8601 timestamps
+  groupHistory?: GroupChangeData[];
+  studentNumber?: string;
+  realName?: string;
+  points?: PointAwardData[];
+  badges?: BadgeAwardData[];
+}
+
+/**
+ * Serialized lab completion, as written to persistent storage
+ */
+export interface LabCompletionData {
+  completedAt?: string; // ISO 8601 timestamp
+  late?: boolean;
+  group?: number;
+  completedBy?: string;
+}
+
+/**
+ * Serialized group change, as written to persistent storage
+ */
+export interface GroupChangeData {
+  from?: number;
+  to?: number;
+  at: string; // ISO 8601 timestamp
+  by?: string;
+}
+
+/**
+ * Serialized group change request, as written to persistent storage
+ */
+export interface GroupChangeRequestData {
+  id: string;
+  studentId: string;
+  from?: number;
+  to: number;
+  requestedAt: string; // ISO 8601 timestamp
+  status: GroupChangeRequest["status"];
+  reviewedBy?: string;
+  reviewedAt?: string; // ISO 8601 timestamp
+}
+
+/**
+ * Serialized lab session information, as written to persistent storage
+ */
+export interface LabSessionData {
+  id: string;
+  name: string;
+  startTime: string; // ISO 8601 timestamp
+  threadId: string;
+  endTime?: string; // ISO 8601 timestamp
+  messageId?: string;
+  steps?: string[];
+  requireSubmission?: boolean;
+  answerHash?: string;
+  answerPattern?: string; // Only written by older versions, which kept answer patterns in plain text
+  deadline?: string; // ISO 8601 timestamp
+  reminders?: number[];
+  acceptLate?: boolean;
+  alertShare?: number;
+  alertAfter?: number;
+  alertSentAt?: string; // ISO 8601 timestamp
+  groupMode?: GroupCompletionMode;
+  lockedGroups?: boolean;
+}
+
+/**
+ * Serialized help request, as written to persistent storage
+ */
+export interface HelpRequestData {
+  id: string;
+  studentId: string;
+  labId: string;
+  requestedAt: string; // ISO 8601 timestamp
+  claimedBy?: string;
+  claimedAt?: string; // ISO 8601 timestamp
+  resolvedAt?: string; // ISO 8601 timestamp
+}
+
+/**
+ * Serialized lab submission, as written to persistent storage
+ */
+export interface SubmissionData {
+  id: string;
+  studentId: string;
+  labId: string;
+  content: string;
+  submittedAt: string; // ISO 8601 timestamp
+  status: SubmissionStatus;
+  reviewedBy?: string;
+  reviewedAt?: string; // ISO 8601 timestamp
+  comment?: string;
+}
+
+/**
+ * Serialized classroom state, as written to persistent storage
+ */
+export interface ClassroomData {
+  id: string;
+  name: string;
+  description?: string;
+  groups: number;
+  groupNames?: string[];
+  maxGroupSize?: number;
+  groupsLocked?: boolean;
+  groupChangeRequests?: GroupChangeRequestData[];
+  groupSpaceType?: GroupSpaceType;
+  groupSpaces?: Record<string, string>;
+  groupLeaders?: Record<string, string>;
+  ownerId?: string;
+  guildId?: string;
+  staff?: Record<string, StaffRole>;
+  roster?: RosterEntry[];
+  students: StudentData[];
+  activeLabSession: LabSessionData | null;
+  labHistory?: LabSessionData[];
+  helpRequests?: HelpRequestData[];
+  submissions?: SubmissionData[];
+  attendance?: AttendanceSessionData[];
+  quizzes?: QuizData[];
+  peerReviews?: PeerReviewData[];
+  thanks?: ThanksData[];
+  completionOverrides?: CompletionOverrideData[];
+  archivedAt?: string; // ISO 8601 timestamp
 }
 
 /**
  * Event types emitted by the Classroom class
  * These events are used for real-time updates of classroom state
  */
-export type ClassroomEventTypes =
-  | "student-added"
-  | "student-group-changed"
-  | "lab-started"
-  | "lab-completed";
+export const classroomEventTypes = [
+  "student-added",
+  "student-group-changed",
+  "roster-imported",
+  "roster-linked",
+  "groups-lock-changed",
+  "group-change-requested",
+  "group-change-reviewed",
+  "group-spaces-created",
+  "group-spaces-removed",
+  "group-leader-changed",
+  "lab-started",
+  "lab-updated",
+  "step-completed",
+  "lab-completed",
+  "group-lab-completed",
+  "completion-overridden",
+  "lab-ended",
+  "help-requested",
+  "help-claimed",
+  "help-resolved",
+  "submission-created",
+  "submission-reviewed",
+  "answer-failed",
+  "attendance-started",
+  "attendance-updated",
+  "attendance-checked-in",
+  "quiz-started",
+  "quiz-updated",
+  "quiz-answered",
+  "quiz-closed",
+  "peer-reviews-assigned",
+  "peer-review-submitted",
+  "classroom-archived",
+  "classroom-restored",
+  "staff-changed",
+  "points-awarded",
+  "badge-awarded",
+  "student-thanked",
+] as const;
+
+export type ClassroomEventTypes = (typeof classroomEventTypes)[number];
 
 /**
  * Classroom state management class
  *
  * Manages all aspects of a classroom including:
+ * - Staff roles (owner, instructors and TAs)
  * - Student enrollment and group assignment
- * - Lab session tracking
+ * - Lab session tracking and history
  * - Lab completion status
+ * - Help requests raised during lab sessions
+ * - Lab submissions and their review
+ *
+ * Attendance, quizzes, peer reviews, participation and completion overrides
+ * live in their own modules under models/classroom, which emit on the classroom
  *
  * Extends EventEmitter to provide real-time updates via events
  */
 export class Classroom extends EventEmitter {
   public id: string; // Thread ID that represents this classroom
   public name: string; // Display name of the classroom
+  public description?: string; // Description shown in the welcome message
   public students: Collection<string, Student> = new Collection();
   public groups: number; // Number of groups in this classroom
+  public groupNames: string[] = []; // Custom group names, index 0 is group 1 (missing names fall back to "Group N")
+  public maxGroupSize?: number; // Maximum number of students per group (unset for unlimited)
+  public groupsLocked = false; // Whether switching groups requires instructor approval
+  public groupChangeRequests: GroupChangeRequest[] = []; // Group switch requests, oldest first
+  public groupSpaceType?: GroupSpaceType; // Kind of the private group spaces (unset if none were created)
+  public groupSpaces: Collection<number, string> = new Collection(); // Channel IDs of the private group spaces, keyed by group number
+  public groupLeaders: Collection<number, string> = new Collection(); // Discord user IDs of the group leaders, keyed by group number
+  public ownerId?: string; // Discord user ID of the creator (unset for classrooms created before ownership was tracked, until a server administrator assigns one)
+  public guildId?: string; // Discord server the classroom belongs to (unset for classrooms created before it was tracked)
+  public staff: Collection<string, StaffRole> = new Collection(); // Co-instructors and TAs, keyed by Discord user ID
+  public roster: RosterEntry[] = []; // Imported class roster, in file order
   public activeLabSession: LabSession | null = null;
+  public labHistory: LabSession[] = []; // Ended lab sessions, oldest first
+  public helpRequests: HelpRequest[] = []; // Help requests of all labs, oldest first
+  public submissions: Submission[] = []; // Submissions of all labs, oldest first
+  public attendance = new ClassroomAttendance(this); // Attendance sessions and check-ins
+  public quizzes = new ClassroomQuizzes(this); // Multiple-choice quizzes
+  public peerReviews = new ClassroomPeerReviews(this); // Peer reviews of ended labs
+  public participation = new ClassroomParticipation(this); // Participation points, badges and thanks
+  public overrides = new ClassroomOverrides(this); // Completion changes made by staff
+  public archivedAt?: Date; // When the classroom thread was archived, locked or deleted (unset while active)
 
   /**
    * Creates a new classroom instance
@@ -57,17 +486,122 @@ export class Classroom extends EventEmitter {
    * @param id - The Discord thread ID that represents this classroom
    * @param name - The display name of the classroom
    * @param groups - Number of groups to create in this classroom (default: 1)
+   * @param ownerId - Discord user ID of the classroom creator
    */
-  constructor(id: string, name: string, groups: number = 1) {
+  constructor(id: string, name: string, groups: number = 1, ownerId?: string) {
     super();
     this.id = id;
     this.name = name;
     this.groups = Math.max(1, groups); // Ensure at least 1 group exists
+    this.ownerId = ownerId;
     logger.classroom(
       `Created classroom "${name}" with ${groups} group(s), thread ID: ${id}`,
     );
   }
 
+  /**
+   * Gets the role of a user in this classroom
+   *
+   * @param userId - The Discord user ID
+   * @returns The user's role, or null if the user is not staff
+   */
+  getRole(userId: string): ClassroomRole | null {
+    if (userId === this.ownerId) {
+      return "owner";
+    }
+    return this.staff.get(userId) ?? null;
+  }
+
+  /**
+   * Checks whether a user has at least the given role in this classroom
+   *
+   * @param userId - The Discord user ID
+   * @param role - The minimum required role
+   * @returns true if the user's role is the same as or above the required role
+   */
+  hasRole(userId: string, role: ClassroomRole): boolean {
+    const userRole = this.getRole(userId);
+    return userRole !== null && ROLE_RANK[userRole] >= ROLE_RANK[role];
+  }
+
+  /**
+   * Grants a staff role to a user, replacing any role they already had
+   * Emits 'staff-changed' event for real-time updates
+   *
+   * @param userId - The Discord user ID
+   * @param role - The role to grant
+   * @returns true if successful, false if the user is the owner
+   */
+  addStaff(userId: string, role: StaffRole): boolean {
+    if (userId === this.ownerId) {
+      logger.classroom(`Failed to add owner ${userId} as ${role}`);
+      return false;
+    }
+
+    this.staff.set(userId, role);
+    logger.classroom(`Added ${userId} as ${role} to classroom "${this.name}"`);
+    this.emit("staff-changed", userId, role);
+    return true;
+  }
+
+  /**
+   * Hands the classroom over to a new owner, who no longer needs a staff role
+   * The previous owner stays on as an instructor
+   * Emits 'staff-changed' event for both users, for real-time updates
+   *
+   * @param userId - The Discord user ID of the new owner
+   * @returns true if successful, false if the user already owns the classroom
+   */
+  setOwner(userId: string): boolean {
+    if (userId === this.ownerId) {
+      logger.classroom(`Failed to set owner ${userId} - already the owner`);
+      return false;
+    }
+
+    const previousId = this.ownerId;
+    this.staff.delete(userId);
+    this.ownerId = userId;
+    if (previousId) {
+      this.staff.set(previousId, "instructor");
+    }
+
+    logger.classroom(`Made ${userId} the owner of classroom "${this.name}"`);
+    this.emit("staff-changed", userId, "owner");
+    if (previousId) {
+      this.emit("staff-changed", previousId, "instructor");
+    }
+    return true;
+  }
+
+  /**
+   * Lists everyone who runs this classroom: the owner followed by the co-instructors and TAs
+   *
+   * @returns Discord user IDs of the classroom staff
+   */
+  getStaffIds(): string[] {
+    return [...(this.ownerId ? [this.ownerId] : []), ...this.staff.keys()];
+  }
+
+  /**
+   * Revokes the staff role of a user
+   * Emits 'staff-changed' event for real-time updates
+   *
+   * @param userId - The Discord user ID
+   * @returns true if successful, false if the user was not staff
+   */
+  removeStaff(userId: string): boolean {
+    if (!this.staff.delete(userId)) {
+      logger.classroom(`Failed to remove ${userId} - not staff`);
+      return false;
+    }
+
+    logger.classroom(
+      `Removed ${userId} from staff of classroom "${this.name}"`,
+    );
+    this.emit("staff-changed", userId, null);
+    return true;
+  }
+
   /**
    * Adds a student to the classroom
    * Emits 'student-added' event for real-time updates
@@ -80,6 +614,70 @@ export class Classroom extends EventEmitter {
       `Added student "${student.name}" (${student.id}) to classroom "${this.name}"`,
     );
     this.emit("student-added", student);
+    this.linkRosterEntry(student.id);
+  }
+
+  /**
+   * Replaces the class roster and links every enrolled student to their row
+   * Emits 'roster-imported' event for real-time updates
+   *
+   * @param entries - The rows of the roster
+   */
+  importRoster(entries: RosterEntry[]): void {
+    this.roster = entries;
+    logger.classroom(
+      `Imported roster of ${entries.length} student(s) into classroom "${this.name}"`,
+    );
+    this.emit("roster-imported", entries);
+
+    for (const student of this.students.values()) {
+      this.linkRosterEntry(student.id);
+    }
+  }
+
+  /**
+   * Finds the roster row of a student
+   *
+   * @param studentId - The Discord user ID of the student
+   * @returns The linked roster entry if found, undefined otherwise
+   */
+  getRosterEntry(studentId: string): RosterEntry | undefined {
+    return this.roster.find((entry) => entry.discordId === studentId);
+  }
+
+  /**
+   * Links a student to their roster row, matching by Discord user ID or username
+   * Copies the student ID and real name from the roster onto the student
+   * Emits 'roster-linked' event for real-time updates
+   *
+   * @param studentId - The Discord user ID of the student
+   * @returns The linked roster entry, or undefined if no row matches
+   */
+  linkRosterEntry(studentId: string): RosterEntry | undefined {
+    const student = this.students.get(studentId);
+    if (!student) {
+      return undefined;
+    }
+
+    const username = student.name.toLowerCase();
+    const entry =
+      this.getRosterEntry(studentId) ??
+      this.roster.find(
+        (entry) =>
+          !entry.discordId && entry.discordUsername.toLowerCase() === username,
+      );
+    if (!entry) {
+      return undefined;
+    }
+
+    entry.discordId = student.id;
+    student.studentNumber = entry.studentNumber;
+    student.realName = entry.realName;
+    logger.classroom(
+      `Linked student "${student.name}" to roster row ${entry.studentNumber}`,
+    );
+    this.emit("roster-linked", student, entry);
+    return entry;
   }
 
   /**
@@ -98,9 +696,14 @@ export class Classroom extends EventEmitter {
    *
    * @param studentId - The Discord user ID of the student
    * @param group - The group number to assign (1-based)
-   * @returns true if successful, false if student or group is invalid
+   * @param changedBy - Discord user ID of the staff member making the change (unset if self-service)
+   * @returns true if successful, false if student or group is invalid or the group is full
    */
-  assignStudentToGroup(studentId: string, group: number): boolean {
+  assignStudentToGroup(
+    studentId: string,
+    group: number,
+    changedBy?: string,
+  ): boolean {
     const student = this.students.get(studentId);
 
     // Validate student exists and group number is valid
@@ -111,97 +714,794 @@ export class Classroom extends EventEmitter {
       return false;
     }
 
-    student.group = group;
+    // Reject joining a group that has no room left
+    if (student.group !== group && this.isGroupFull(group)) {
+      logger.classroom(
+        `Failed to assign student ${studentId} to group ${group} (group is full)`,
+      );
+      return false;
+    }
+
+    this.setStudentGroup(student, group, changedBy);
     logger.classroom(`Assigned student "${student.name}" to group ${group}`);
-    this.emit("student-group-changed", student, group);
     return true;
   }
 
   /**
-   * Starts a new lab session in this classroom
-   * Emits 'lab-started' event for real-time updates
+   * Changes the group of a student and records the change in their history
+   * Emits 'student-group-changed' event for real-time updates
    *
-   * @param labName - The name of the lab session
-   * @returns The newly created lab session object
-   * @throws Error if another lab session is already active
+   * @param student - The student to move
+   * @param group - The new group (undefined to remove the student from their group)
+   * @param changedBy - Discord user ID of the staff member making the change (unset if self-service)
    */
-  startLab(labName: string): LabSession {
-    // Prevent multiple active labs
+  private setStudentGroup(
+    student: Student,
+    group: number | undefined,
+    changedBy?: string,
+  ): void {
+    const previous = student.group;
+    if (previous !== group) {
+      // Leaders give up leading the group they leave
+      if (
+        student.group !== undefined &&
+        this.groupLeaders.get(student.group) === student.id
+      ) {
+        this.setGroupLeader(student.group, undefined);
+      }
+      student.groupHistory.push({
+        from: student.group,
+        to: group,
+        at: new Date(),
+        by: changedBy,
+      });
+    }
+
+    student.group = group;
+    this.emit("student-group-changed", student, group, previous);
+  }
+
+  /**
+   * Locks or unlocks groups
+   * While locked, students who already have a group must request a switch
+   * Emits 'groups-lock-changed' event for real-time updates
+   *
+   * @param locked - Whether groups should be locked
+   */
+  setGroupsLocked(locked: boolean): void {
+    if (this.groupsLocked === locked) {
+      return;
+    }
+
+    this.groupsLocked = locked;
+
+    // A manual change takes the lock over from the active lab, which then leaves it alone
     if (this.activeLabSession) {
-      logger.classroom(
-        `Failed to start new lab "${labName}" - another lab is already active`,
-      );
-      throw new Error("A lab session is already active");
+      this.activeLabSession.lockedGroups = undefined;
     }
 
-    // Create new lab session
-    this.activeLabSession = {
-      id: Date.now().toString(), // Use timestamp as unique ID
-      name: labName,
-      startTime: new Date(),
-      threadId: this.id,
-    };
+    logger.classroom(
+      `${locked ? "Locked" : "Unlocked"} groups in classroom "${this.name}"`,
+    );
+    this.emit("groups-lock-changed", locked);
+  }
 
+  /**
+   * Records the private spaces created for the groups of this classroom
+   * Emits 'group-spaces-created' event for real-time updates
+   *
+   * @param type - The kind of the spaces
+   * @param spaces - Channel IDs of the spaces, keyed by group number
+   */
+  setGroupSpaces(type: GroupSpaceType, spaces: Map<number, string>): void {
+    this.groupSpaceType = type;
+    this.groupSpaces = new Collection(spaces);
     logger.classroom(
-      `Started new lab "${labName}" in classroom "${this.name}"`,
+      `Created ${spaces.size} group ${type}(s) in classroom "${this.name}"`,
     );
-    this.emit("lab-started", this.activeLabSession);
-    return this.activeLabSession;
+    this.emit("group-spaces-created", type, this.groupSpaces);
   }
 
   /**
-   * Marks a lab as completed for a specific student
-   * Emits 'lab-completed' event for real-time updates (only on first completion)
+   * Forgets the private spaces of the groups after they were deleted
+   * The space type is kept, so the spaces can be created again for the next lab
+   * Emits 'group-spaces-removed' event for real-time updates
+   */
+  removeGroupSpaces(): void {
+    if (this.groupSpaces.size === 0) {
+      return;
+    }
+
+    this.groupSpaces = new Collection();
+    logger.classroom(`Removed the group spaces of classroom "${this.name}"`);
+    this.emit("group-spaces-removed");
+  }
+
+  /**
+   * Appoints or removes the leader of a group
+   * Emits 'group-leader-changed' event for real-time updates
    *
-   * @param studentId - The Discord user ID of the student
-   * @returns true if successful, false if no active lab or student not found
+   * @param group - The group number (1-based)
+   * @param studentId - The Discord user ID of the new leader (undefined to remove the leader)
+   * @returns true if successful, false if the group is invalid or the student is not a member of it
    */
-  completeLab(studentId: string): boolean {
-    // Validate an active lab exists
-    if (!this.activeLabSession) {
+  setGroupLeader(group: number, studentId: string | undefined): boolean {
+    if (
+      group < 1 ||
+      group > this.groups ||
+      (studentId !== undefined && this.students.get(studentId)?.group !== group)
+    ) {
       logger.classroom(
-        `Failed to complete lab for student ${studentId} - no active lab session`,
+        `Failed to set leader of group ${group} to ${studentId} (invalid group or not a member)`,
       );
       return false;
     }
 
-    // Validate student exists in this classroom
+    if (studentId) {
+      this.groupLeaders.set(group, studentId);
+    } else {
+      this.groupLeaders.delete(group);
+    }
+    logger.classroom(
+      `${studentId ? `Set leader of group ${group} to ${studentId}` : `Removed leader of group ${group}`} in classroom "${this.name}"`,
+    );
+    this.emit("group-leader-changed", group, studentId);
+    return true;
+  }
+
+  /**
+   * Requests a group switch for a student, to be approved by an instructor
+   * Replaces the target group of the student's pending request if there is one
+   * Emits 'group-change-requested' event for real-time updates
+   *
+   * @param studentId - The Discord user ID of the student
+   * @param group - The requested group number (1-based)
+   * @returns The pending request, or null if student or group is invalid
+   */
+  requestGroupChange(
+    studentId: string,
+    group: number,
+  ): GroupChangeRequest | null {
     const student = this.students.get(studentId);
-    if (!student) {
+    if (!student || group < 1 || group > this.groups) {
       logger.classroom(
-        `Failed to complete lab for student ${studentId} - student not found`,
+        `Failed to request group change for student ${studentId} to group ${group} (invalid student or group)`,
       );
-      return false;
+      return null;
     }
 
-    // Track if this is a new completion or repeat submission
-    const isNewCompletion = !student.completedLabs.has(
-      this.activeLabSession.id,
-    );
-
-    // Mark lab as completed
-    student.completedLabs.add(this.activeLabSession.id);
-    logger.classroom(
-      `Student "${student.name}" completed lab "${this.activeLabSession.name}"`,
+    let request = this.getPendingGroupChanges().find(
+      (request) => request.studentId === studentId,
     );
 
-    // Only emit event on first completion to avoid duplicate notifications
-    if (isNewCompletion) {
-      this.emit("lab-completed", student, this.activeLabSession);
+    if (request) {
+      request.to = group;
+      request.requestedAt = new Date();
+    } else {
+      request = {
+        id: `${Date.now()}-${studentId}`,
+        studentId,
+        from: student.group,
+        to: group,
+        requestedAt: new Date(),
+        status: "pending",
+      };
+      this.groupChangeRequests.push(request);
     }
 
-    return true;
+    logger.classroom(
+      `Student "${student.name}" requested to switch from group ${student.group} to ${group}`,
+    );
+    this.emit("group-change-requested", request);
+    return request;
   }
 
   /**
-   * Checks if a student has completed the currently active lab
+   * Gets the group switch requests waiting for review, oldest first
    *
-   * @param studentId - The Discord user ID of the student
-   * @returns true if the student has completed the active lab, false otherwise
+   * @returns The pending group change requests
    */
-  hasCompletedActiveLab(studentId: string): boolean {
-    // Early return if no active lab
-    if (!this.activeLabSession) {
+  getPendingGroupChanges(): GroupChangeRequest[] {
+    return this.groupChangeRequests.filter(
+      (request) => request.status === "pending",
+    );
+  }
+
+  /**
+   * Approves or rejects a pending group switch request
+   * Approving moves the student even though groups are locked
+   * Emits 'group-change-reviewed' event for real-time updates
+   *
+   * @param requestId - The ID of the request
+   * @param reviewerId - The Discord user ID of the reviewing instructor
+   * @param approved - Whether the request is approved
+   * @returns The reviewed request, or null if not found, already reviewed or the target group is full
+   */
+  reviewGroupChange(
+    requestId: string,
+    reviewerId: string,
+    approved: boolean,
+  ): GroupChangeRequest | null {
+    const request = this.groupChangeRequests.find(
+      (request) => request.id === requestId,
+    );
+    if (!request || request.status !== "pending") {
+      logger.classroom(
+        `Failed to review group change ${requestId} - not found or already reviewed`,
+      );
+      return null;
+    }
+
+    if (
+      approved &&
+      !this.assignStudentToGroup(request.studentId, request.to, reviewerId)
+    ) {
+      return null;
+    }
+
+    request.status = approved ? "approved" : "rejected";
+    request.reviewedBy = reviewerId;
+    request.reviewedAt = new Date();
+
+    logger.classroom(
+      `Group change ${requestId} ${request.status} by ${reviewerId}`,
+    );
+    this.emit("group-change-reviewed", request);
+    return request;
+  }
+
+  /**
+   * Gets the display name of a group
+   *
+   * @param group - The group number (1-based)
+   * @returns The custom name of the group, or "Group N" if it has none
+   */
+  getGroupName(group: number): string {
+    return this.groupNames[group - 1] || `Group ${group}`;
+  }
+
+  /**
+   * Counts the students in a group
+   *
+   * @param group - The group number (1-based)
+   * @returns The number of students in the group
+   */
+  getGroupSize(group: number): number {
+    return this.students.filter((student) => student.group === group).size;
+  }
+
+  /**
+   * Checks whether a group has reached the maximum group size
+   *
+   * @param group - The group number (1-based)
+   * @returns true if the group is full, false if it has room or there is no limit
+   */
+  isGroupFull(group: number): boolean {
+    return (
+      this.maxGroupSize !== undefined &&
+      this.getGroupSize(group) >= this.maxGroupSize
+    );
+  }
+
+  /**
+   * Reassigns all students of the classroom to groups using a strategy
+   * Students who do not fit within the maximum group size are left unassigned
+   * Emits 'student-group-changed' event for every student whose group changed
+   *
+   * @param strategy - The assignment strategy to use
+   * @param changedBy - Discord user ID of the staff member making the change
+   * @returns The number of students who changed group and who were left without a group
+   */
+  assignGroups(
+    strategy: GroupStrategy,
+    changedBy?: string,
+  ): { moved: number; unassigned: number } {
+    const students = Array.from(this.students.values());
+    const capacity = this.maxGroupSize ?? Infinity;
+    const sizes = new Array<number>(this.groups + 1).fill(0);
+    const plan = new Map<string, number | undefined>();
+
+    // Places a student into a group, or leaves them unassigned if it is full
+    const place = (student: Student, group: number | undefined) => {
+      if (group !== undefined && sizes[group] < capacity) {
+        sizes[group]++;
+        plan.set(student.id, group);
+      } else {
+        plan.set(student.id, undefined);
+      }
+    };
+
+    // Finds the group with the fewest planned students, preferring lower numbers
+    const smallestGroup = () => {
+      let smallest = 1;
+      for (let group = 2; group <= this.groups; group++) {
+        if (sizes[group] < sizes[smallest]) {
+          smallest = group;
+        }
+      }
+      return smallest;
+    };
+
+    if (strategy === "balanced") {
+      // Fisher-Yates shuffle, then deal students out one group at a time
+      for (let i = students.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [students[i], students[j]] = [students[j], students[i]];
+      }
+      students.forEach((student, i) => place(student, (i % this.groups) + 1));
+    } else if (strategy === "fill") {
+      const perGroup = Math.min(
+        capacity,
+        Math.ceil(students.length / this.groups),
+      );
+      students.forEach((student, i) =>
+        place(student, Math.floor(i / perGroup) + 1),
+      );
+    } else {
+      // Existing members keep their group as long as it has room,
+      // everyone else goes to whichever group is smallest at the time
+      const remaining: Student[] = [];
+      for (const student of students) {
+        if (student.group !== undefined && sizes[student.group] < capacity) {
+          place(student, student.group);
+        } else {
+          remaining.push(student);
+        }
+      }
+      remaining.forEach((student) => place(student, smallestGroup()));
+    }
+
+    let moved = 0;
+    for (const student of students) {
+      const group = plan.get(student.id);
+      if (student.group !== group) {
+        this.setStudentGroup(student, group, changedBy);
+        moved++;
+      }
+    }
+
+    const unassigned = students.filter(
+      (student) => student.group === undefined,
+    ).length;
+    logger.classroom(
+      `Reassigned groups in classroom "${this.name}" using "${strategy}" strategy: ${moved} moved, ${unassigned} unassigned`,
+    );
+    return { moved, unassigned };
+  }
+
+  /**
+   * Starts a new lab session in this classroom
+   * Emits 'lab-started' event for real-time updates
+   *
+   * @param labName - The name of the lab session
+   * @param options - Optional checkpoints and completion requirements of the lab
+   * @returns The newly created lab session object
+   * @throws Error if another lab session is already active
+   */
+  startLab(labName: string, options: LabOptions = {}): LabSession {
+    // Prevent multiple active labs
+    if (this.activeLabSession) {
+      logger.classroom(
+        `Failed to start new lab "${labName}" - another lab is already active`,
+      );
+      throw new Error("A lab session is already active");
+    }
+
+    // Create new lab session
+    const id = Date.now().toString(); // Use timestamp as unique ID
+    this.activeLabSession = {
+      id,
+      name: labName,
+      startTime: new Date(),
+      threadId: this.id,
+      steps: options.steps?.length ? options.steps : undefined,
+      requireSubmission: options.requireSubmission || undefined,
+      answerHash: options.answer ? hashAnswer(id, options.answer) : undefined,
+      deadline: options.deadline,
+      reminders: options.deadline
+        ? options.reminders && [...options.reminders].sort((a, b) => b - a)
+        : undefined,
+      acceptLate: (options.deadline && options.acceptLate) || undefined,
+      alertShare: options.alertShare || undefined,
+      alertAfter: options.alertAfter || undefined,
+      groupMode: options.groupMode,
+    };
+
+    // Keep per-group stats consistent for the duration of the lab
+    if (options.lockGroups && !this.groupsLocked) {
+      this.setGroupsLocked(true);
+      this.activeLabSession.lockedGroups = true;
+    }
+
+    logger.classroom(
+      `Started new lab "${labName}" in classroom "${this.name}"`,
+    );
+    this.emit("lab-started", this.activeLabSession);
+    return this.activeLabSession;
+  }
+
+  /**
+   * Records the message that holds the completion button of a lab
+   * Emits 'lab-updated' event for real-time updates
+   *
+   * @param labId - The ID of the lab session
+   * @param messageId - The Discord message ID of the lab message
+   * @returns true if successful, false if the lab was not found
+   */
+  setLabMessage(labId: string, messageId: string): boolean {
+    const lab = this.getLab(labId);
+    if (!lab) {
+      logger.classroom(`Failed to set message for unknown lab ${labId}`);
+      return false;
+    }
+
+    lab.messageId = messageId;
+    this.emit("lab-updated", lab);
+    return true;
+  }
+
+  /**
+   * Records that staff were alerted to the students still working on a lab, so they are alerted once
+   * Emits 'lab-updated' event for real-time updates
+   *
+   * @param labId - The ID of the lab session
+   * @returns true if successful, false if the lab was not found or staff were already alerted
+   */
+  markStuckAlertSent(labId: string): boolean {
+    const lab = this.getLab(labId);
+    if (!lab || lab.alertSentAt) {
+      return false;
+    }
+
+    lab.alertSentAt = new Date();
+    logger.classroom(
+      `Alerted staff to students still working on "${lab.name}"`,
+    );
+    this.emit("lab-updated", lab);
+    return true;
+  }
+
+  /**
+   * Ends the active lab session and moves it into the lab history
+   * Emits 'lab-ended' event for real-time updates
+   *
+   * @returns The lab session that was ended
+   * @throws Error if no lab session is active
+   */
+  endLab(): LabSession {
+    const lab = this.activeLabSession;
+    if (!lab) {
+      logger.classroom(
+        `Failed to end lab in classroom "${this.name}" - no active lab session`,
+      );
+      throw new Error("No lab session is active");
+    }
+
+    lab.endTime = new Date();
+    this.labHistory.push(lab);
+    this.activeLabSession = null;
+
+    // Release groups the lab locked, so switching no longer needs approval
+    if (lab.lockedGroups) {
+      this.setGroupsLocked(false);
+    }
+
+    logger.classroom(`Ended lab "${lab.name}" in classroom "${this.name}"`);
+    this.emit("lab-ended", lab);
+    return lab;
+  }
+
+  /**
+   * All lab sessions of this classroom, ended ones first and the active one last
+   */
+  get labs(): LabSession[] {
+    return this.activeLabSession
+      ? [...this.labHistory, this.activeLabSession]
+      : [...this.labHistory];
+  }
+
+  /**
+   * Retrieves a lab session by its ID, whether active or ended
+   *
+   * @param labId - The ID of the lab session
+   * @returns The lab session if found, undefined otherwise
+   */
+  getLab(labId: string): LabSession | undefined {
+    return this.labs.find((lab) => lab.id === labId);
+  }
+
+  /**
+   * Counts how many students of this classroom completed a lab
+   *
+   * @param labId - The ID of the lab session
+   * @returns The number of students who completed the lab
+   */
+  countCompletions(labId: string): number {
+    return this.students.filter((student) => student.completedLabs.has(labId))
+      .size;
+  }
+
+  /**
+   * Gets how long each student took to complete a lab, measured from its start
+   * Completions without a timestamp, recorded by older versions, are left out
+   *
+   * @param labId - The ID of the lab session
+   * @param group - Optional group number to restrict the times to
+   * @returns The students with their time to complete in milliseconds, fastest first
+   */
+  getCompletionTimes(
+    labId: string,
+    group?: number,
+  ): { student: Student; duration: number }[] {
+    const lab = this.getLab(labId);
+    if (!lab) {
+      return [];
+    }
+
+    const times: { student: Student; duration: number }[] = [];
+    for (const student of this.students.values()) {
+      const completedAt = student.completedLabs.get(labId)?.completedAt;
+      if (completedAt && (group === undefined || student.group === group)) {
+        times.push({
+          student,
+          duration: Math.max(
+            0,
+            completedAt.getTime() - lab.startTime.getTime(),
+          ),
+        });
+      }
+    }
+
+    return times.sort((a, b) => a.duration - b.duration);
+  }
+
+  /**
+   * Gets how many checkpoints of a lab a student has reached
+   *
+   * @param studentId - The Discord user ID of the student
+   * @param labId - The ID of the lab session
+   * @returns The number of checkpoints reached (0 if none or student not found)
+   */
+  getStepProgress(studentId: string, labId: string): number {
+    return this.students.get(studentId)?.labProgress.get(labId) ?? 0;
+  }
+
+  /**
+   * Marks a checkpoint of the active lab as reached for a specific student
+   * Checkpoints must be reached in order
+   * Emits 'step-completed' event for real-time updates (only on first completion)
+   *
+   * @param studentId - The Discord user ID of the student
+   * @param step - The index of the checkpoint (0-based)
+   * @returns true if successful, false if no active lab, invalid step, student not found or step out of order
+   */
+  completeStep(studentId: string, step: number): boolean {
+    const lab = this.activeLabSession;
+    if (!lab?.steps || step < 0 || step >= lab.steps.length) {
+      logger.classroom(
+        `Failed to complete step ${step} for student ${studentId} - no active lab or invalid step`,
+      );
+      return false;
+    }
+
+    const student = this.students.get(studentId);
+    if (!student) {
+      logger.classroom(
+        `Failed to complete step ${step} for student ${studentId} - student not found`,
+      );
+      return false;
+    }
+
+    const progress = student.labProgress.get(lab.id) ?? 0;
+
+    // Steps before the current progress were already reached
+    if (step < progress) {
+      return true;
+    }
+
+    // Reject skipping ahead of the next checkpoint
+    if (step > progress) {
+      logger.classroom(
+        `Failed to complete step ${step} for student "${student.name}" - next step is ${progress}`,
+      );
+      return false;
+    }
+
+    student.labProgress.set(lab.id, step + 1);
+    logger.classroom(
+      `Student "${student.name}" reached step ${step + 1}/${lab.steps.length} of lab "${lab.name}"`,
+    );
+    this.emit("step-completed", student, lab, step);
+    return true;
+  }
+
+  /**
+   * Counts how many students reached each checkpoint of a lab
+   *
+   * @param labId - The ID of the lab session
+   * @param group - Optional group number to restrict the count to
+   * @returns The number of students who reached each checkpoint, in order
+   */
+  getStepFunnel(labId: string, group?: number): number[] {
+    const lab = this.getLab(labId);
+    if (!lab?.steps) {
+      return [];
+    }
+
+    const students = this.students.filter(
+      (student) => group === undefined || student.group === group,
+    );
+    return lab.steps.map(
+      (_, step) =>
+        students.filter(
+          (student) => (student.labProgress.get(labId) ?? 0) > step,
+        ).size,
+    );
+  }
+
+  /**
+   * Marks a lab as completed for a specific student
+   * In labs where one member completes for their group, the rest of the group completes it as well
+   * Emits 'lab-completed' event for every new completion, and 'group-lab-completed' once the whole group has completed the lab
+   *
+   * @param studentId - The Discord user ID of the student
+   * @param labId - The ID of the lab session (defaults to the active lab)
+   * @param at - When the student completed the lab, used to decide lateness (default: now)
+   * @returns true if successful, false if no active lab or student not found
+   */
+  completeLab(
+    studentId: string,
+    labId = this.activeLabSession?.id,
+    at = new Date(),
+  ): boolean {
+    // Validate the lab exists (the active lab unless another is given)
+    const lab = labId ? this.getLab(labId) : undefined;
+    if (!lab) {
+      logger.classroom(
+        `Failed to complete lab for student ${studentId} - no active lab session`,
+      );
+      return false;
+    }
+
+    // Validate student exists in this classroom
+    const student = this.students.get(studentId);
+    if (!student) {
+      logger.classroom(
+        `Failed to complete lab for student ${studentId} - student not found`,
+      );
+      return false;
+    }
+
+    // Track if this is a new completion or repeat submission
+    const isNewCompletion = !student.completedLabs.has(lab.id);
+
+    // Completions after the deadline still count, but are flagged
+    const late = lab.deadline !== undefined && at > lab.deadline;
+    logger.classroom(
+      `Student "${student.name}" completed lab "${lab.name}"${late ? " late" : ""}`,
+    );
+
+    // Only record and emit the first completion, keeping its time and avoiding duplicate notifications
+    if (isNewCompletion) {
+      this.recordCompletion(student, lab, {
+        completedAt: at,
+        late: late || undefined,
+        group: student.group,
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Records a student's new completion of a lab, for staff overrides as well as students
+   * Only for new completions, use completeLab or overrides.mark to complete a lab
+   * In labs where one member completes for their group, the rest of the group completes it as well
+   * Emits 'lab-completed' event for every new completion, and 'group-lab-completed' once the whole group has completed the lab
+   *
+   * @param student - The student who completed the lab
+   * @param lab - The completed lab
+   * @param completion - The completion to record
+   */
+  recordCompletion(
+    student: Student,
+    lab: LabSession,
+    completion: LabCompletion,
+  ): void {
+    student.completedLabs.set(lab.id, completion);
+    this.emit("lab-completed", student, lab, completion);
+
+    if (lab.groupMode === "one" && student.group !== undefined) {
+      for (const member of this.getGroupMembers(student.group)) {
+        if (!member.completedLabs.has(lab.id)) {
+          const memberCompletion = { ...completion, completedBy: student.id };
+          member.completedLabs.set(lab.id, memberCompletion);
+          this.emit("lab-completed", member, lab, memberCompletion);
+        }
+      }
+    }
+
+    this.checkGroupCompletion(lab, student.group);
+  }
+
+  /**
+   * Emits 'group-lab-completed' if every member of a group has completed a lab
+   * Only called after a new completion, so the event is emitted once per group
+   *
+   * @param lab - The lab that was completed
+   * @param group - The group of the student who completed it (undefined without a group)
+   */
+  private checkGroupCompletion(lab: LabSession, group: number | undefined) {
+    if (
+      lab.groupMode !== undefined &&
+      group !== undefined &&
+      this.isGroupLabComplete(lab.id, group)
+    ) {
+      logger.classroom(
+        `${this.getGroupName(group)} completed lab "${lab.name}" as a group`,
+      );
+      this.emit("group-lab-completed", group, lab);
+    }
+  }
+
+  /**
+   * Gets the students of a group
+   *
+   * @param group - The group number (1-based)
+   * @returns The members of the group, in enrollment order
+   */
+  getGroupMembers(group: number): Student[] {
+    return Array.from(this.students.values()).filter(
+      (student) => student.group === group,
+    );
+  }
+
+  /**
+   * Checks whether every member of a group has completed a lab
+   *
+   * @param labId - The ID of the lab session
+   * @param group - The group number (1-based)
+   * @returns true if the group has members and all of them completed the lab
+   */
+  isGroupLabComplete(labId: string, group: number): boolean {
+    const members = this.getGroupMembers(group);
+    return (
+      members.length > 0 &&
+      members.every((member) => member.completedLabs.has(labId))
+    );
+  }
+
+  /**
+   * Checks whether a student may complete a lab
+   * In labs where one member completes for their group, only the group leader may, if the group has one
+   *
+   * @param studentId - The Discord user ID of the student
+   * @param labId - The ID of the lab session (defaults to the active lab)
+   * @returns true if the student may complete the lab, false otherwise
+   */
+  canCompleteLab(
+    studentId: string,
+    labId = this.activeLabSession?.id,
+  ): boolean {
+    const lab = labId ? this.getLab(labId) : undefined;
+    const group = this.students.get(studentId)?.group;
+    if (lab?.groupMode !== "one" || group === undefined) {
+      return true;
+    }
+
+    const leader = this.groupLeaders.get(group);
+    return leader === undefined || leader === studentId;
+  }
+
+  /**
+   * Checks if a student has completed the currently active lab
+   *
+   * @param studentId - The Discord user ID of the student
+   * @returns true if the student has completed the active lab, false otherwise
+   */
+  hasCompletedActiveLab(studentId: string): boolean {
+    // Early return if no active lab
+    if (!this.activeLabSession) {
       return false;
     }
 
@@ -214,6 +1514,633 @@ export class Classroom extends EventEmitter {
     // Check if student has completed the active lab
     return student.completedLabs.has(this.activeLabSession.id);
   }
+
+  /**
+   * Adds a student to the help queue of the active lab
+   * Emits 'help-requested' event for real-time updates (only for new requests)
+   *
+   * @param studentId - The Discord user ID of the student
+   * @returns The student's open help request, or null if no active lab or student not found
+   */
+  requestHelp(studentId: string): HelpRequest | null {
+    const lab = this.activeLabSession;
+    const student = this.students.get(studentId);
+    if (!lab || !student) {
+      logger.classroom(
+        `Failed to request help for student ${studentId} - no active lab or student not found`,
+      );
+      return null;
+    }
+
+    // A student only holds one open request at a time
+    const existing = this.getHelpQueue().find(
+      (request) => request.studentId === studentId,
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const request: HelpRequest = {
+      id: `${Date.now()}-${studentId}`,
+      studentId,
+      labId: lab.id,
+      requestedAt: new Date(),
+    };
+    this.helpRequests.push(request);
+
+    logger.classroom(
+      `Student "${student.name}" requested help in lab "${lab.name}"`,
+    );
+    this.emit("help-requested", request);
+    return request;
+  }
+
+  /**
+   * Gets the open (unresolved) help requests of a lab, oldest first
+   *
+   * @param labId - The ID of the lab session (defaults to the active lab)
+   * @returns The open help requests of the lab
+   */
+  getHelpQueue(labId = this.activeLabSession?.id): HelpRequest[] {
+    return this.helpRequests.filter(
+      (request) => request.labId === labId && !request.resolvedAt,
+    );
+  }
+
+  /**
+   * Assigns the oldest unclaimed help request of the active lab to a TA
+   * Emits 'help-claimed' event for real-time updates
+   *
+   * @param staffId - The Discord user ID of the TA claiming the request
+   * @returns The claimed request, or null if the queue has no unclaimed requests
+   */
+  claimNextHelpRequest(staffId: string): HelpRequest | null {
+    const request = this.getHelpQueue().find((request) => !request.claimedBy);
+    if (!request) {
+      return null;
+    }
+
+    request.claimedBy = staffId;
+    request.claimedAt = new Date();
+    logger.classroom(
+      `Help request ${request.id} claimed by ${staffId} in classroom "${this.name}"`,
+    );
+    this.emit("help-claimed", request);
+    return request;
+  }
+
+  /**
+   * Resolves the oldest open help request of the active lab claimed by a TA
+   * Emits 'help-resolved' event for real-time updates
+   *
+   * @param staffId - The Discord user ID of the TA resolving the request
+   * @returns The resolved request, or null if the TA has no claimed requests
+   */
+  resolveHelpRequest(staffId: string): HelpRequest | null {
+    const request = this.getHelpQueue().find(
+      (request) => request.claimedBy === staffId,
+    );
+    if (!request) {
+      return null;
+    }
+
+    request.resolvedAt = new Date();
+    logger.classroom(
+      `Help request ${request.id} resolved by ${staffId} in classroom "${this.name}"`,
+    );
+    this.emit("help-resolved", request);
+    return request;
+  }
+
+  /**
+   * Computes response time statistics of the help requests of a lab
+   *
+   * @param labId - The ID of the lab session
+   * @returns Aggregated help request statistics
+   */
+  getHelpStats(labId: string): HelpStats {
+    const requests = this.helpRequests.filter(
+      (request) => request.labId === labId,
+    );
+    const waits = requests
+      .filter((request) => request.claimedAt)
+      .map(
+        (request) =>
+          request.claimedAt!.getTime() - request.requestedAt.getTime(),
+      );
+    const resolutions = requests
+      .filter((request) => request.claimedAt && request.resolvedAt)
+      .map(
+        (request) =>
+          request.resolvedAt!.getTime() - request.claimedAt!.getTime(),
+      );
+    const average = (values: number[]) =>
+      values.length > 0
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : null;
+
+    return {
+      total: requests.length,
+      resolved: resolutions.length,
+      averageWaitMs: average(waits),
+      averageResolutionMs: average(resolutions),
+    };
+  }
+
+  /**
+   * Submits a student's work for the active lab, to be reviewed by an instructor
+   * Replaces the content of the student's pending submission if there is one
+   * Emits 'submission-created' event for real-time updates
+   *
+   * @param studentId - The Discord user ID of the student
+   * @param content - The submitted URL or text answer
+   * @returns The pending submission, or null if the active lab does not take submissions or student not found
+   */
+  submitLab(studentId: string, content: string): Submission | null {
+    const lab = this.activeLabSession;
+    const student = this.students.get(studentId);
+    if (!lab?.requireSubmission || !student) {
+      logger.classroom(
+        `Failed to submit lab for student ${studentId} - no submission lab active or student not found`,
+      );
+      return null;
+    }
+
+    let submission = this.submissions.find(
+      (submission) =>
+        submission.labId === lab.id &&
+        submission.studentId === studentId &&
+        submission.status === "pending",
+    );
+
+    if (submission) {
+      submission.content = content;
+      submission.submittedAt = new Date();
+    } else {
+      submission = {
+        id: `${Date.now()}-${studentId}`,
+        studentId,
+        labId: lab.id,
+        content,
+        submittedAt: new Date(),
+        status: "pending",
+      };
+      this.submissions.push(submission);
+    }
+
+    logger.classroom(
+      `Student "${student.name}" submitted work for lab "${lab.name}"`,
+    );
+    this.emit("submission-created", submission);
+    return submission;
+  }
+
+  /**
+   * Gets the submissions waiting for review, oldest first
+   *
+   * @returns The pending submissions of all labs
+   */
+  getPendingSubmissions(): Submission[] {
+    return this.submissions
+      .filter((submission) => submission.status === "pending")
+      .sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime());
+  }
+
+  /**
+   * Approves or rejects a pending submission
+   * Approving marks the lab as completed for the student
+   * Emits 'submission-reviewed' event for real-time updates
+   *
+   * @param submissionId - The ID of the submission
+   * @param reviewerId - The Discord user ID of the reviewing instructor
+   * @param approved - Whether the submission is approved
+   * @param comment - Optional feedback for the student
+   * @returns The reviewed submission, or null if not found or already reviewed
+   */
+  reviewSubmission(
+    submissionId: string,
+    reviewerId: string,
+    approved: boolean,
+    comment?: string,
+  ): Submission | null {
+    const submission = this.submissions.find(
+      (submission) => submission.id === submissionId,
+    );
+    if (!submission || submission.status !== "pending") {
+      logger.classroom(
+        `Failed to review submission ${submissionId} - not found or already reviewed`,
+      );
+      return null;
+    }
+
+    submission.status = approved ? "approved" : "rejected";
+    submission.reviewedBy = reviewerId;
+    submission.reviewedAt = new Date();
+    submission.comment = comment || undefined;
+
+    logger.classroom(
+      `Submission ${submissionId} ${submission.status} by ${reviewerId}`,
+    );
+    this.emit("submission-reviewed", submission);
+
+    if (approved) {
+      // Lateness depends on when the work was submitted, not when it was reviewed
+      this.completeLab(
+        submission.studentId,
+        submission.labId,
+        submission.submittedAt,
+      );
+    }
+
+    return submission;
+  }
+
+  /**
+   * Checks a student's answer against the answer key of the active lab
+   * A correct answer completes the lab, a wrong one is recorded as a failed attempt
+   * Emits 'answer-failed' event for real-time updates on wrong answers
+   *
+   * @param studentId - The Discord user ID of the student
+   * @param answer - The answer given by the student
+   * @returns Whether the answer is correct, or null if the active lab has no answer key or student not found
+   */
+  checkAnswer(studentId: string, answer: string): boolean | null {
+    const lab = this.activeLabSession;
+    const student = this.students.get(studentId);
+    if (!lab?.answerHash || !student) {
+      logger.classroom(
+        `Failed to check answer for student ${studentId} - no answer key or student not found`,
+      );
+      return null;
+    }
+
+    const normalized = answer.trim();
+    const correct =
+      normalized.length <= MAX_ANSWER_LENGTH &&
+      hashAnswer(lab.id, normalized) === lab.answerHash;
+
+    if (correct) {
+      logger.classroom(
+        `Student "${student.name}" answered lab "${lab.name}" correctly`,
+      );
+      this.completeLab(studentId);
+      return true;
+    }
+
+    const attempts = student.failedAttempts.get(lab.id) ?? [];
+    attempts.push(new Date());
+    student.failedAttempts.set(lab.id, attempts);
+
+    logger.classroom(
+      `Student "${student.name}" answered lab "${lab.name}" wrong (${attempts.length} failed attempt(s))`,
+    );
+    this.emit("answer-failed", student, lab);
+    return false;
+  }
+
+  /**
+   * Classifies a student's wrong answers to a lab
+   * Students who completed the lab are never flagged
+   *
+   * @param studentId - The Discord user ID of the student
+   * @param labId - The ID of the lab session
+   * @returns The attempt pattern, or null if nothing stands out
+   */
+  getAttemptPattern(studentId: string, labId: string): AttemptPattern | null {
+    const student = this.students.get(studentId);
+    const attempts = student?.failedAttempts.get(labId) ?? [];
+    if (!student || student.completedLabs.has(labId)) {
+      return null;
+    }
+
+    // Many attempts within a short window suggest guessing rather than working
+    const isGuessing = attempts.some(
+      (attempt, i) =>
+        i + GUESSING_ATTEMPTS - 1 < attempts.length &&
+        attempts[i + GUESSING_ATTEMPTS - 1].getTime() - attempt.getTime() <=
+          GUESSING_WINDOW,
+    );
+    if (isGuessing) {
+      return "guessing";
+    }
+
+    return attempts.length >= STUCK_ATTEMPTS ? "stuck" : null;
+  }
+
+  /**
+   * Finds the work a student handed in for a lab
+   * Prefers the approved submission over pending or rejected ones
+   *
+   * @param labId - The ID of the lab session
+   * @param studentId - The Discord user ID of the student
+   * @returns The submitted URL or answer, or undefined if the student submitted nothing
+   */
+  getSubmissionContent(labId: string, studentId: string): string | undefined {
+    const submissions = this.submissions.filter(
+      (submission) =>
+        submission.labId === labId && submission.studentId === studentId,
+    );
+    return (
+      submissions.find((submission) => submission.status === "approved") ??
+      submissions.at(-1)
+    )?.content;
+  }
+
+  /**
+   * Archives the classroom, ending its active lab session
+   * Emits 'classroom-archived' event so live messages can stop updating
+   *
+   * @returns The lab session that was ended, or null if none was active
+   */
+  archive(): LabSession | null {
+    if (this.archivedAt) {
+      return null;
+    }
+
+    const lab = this.activeLabSession ? this.endLab() : null;
+    this.archivedAt = new Date();
+
+    logger.classroom(`Archived classroom "${this.name}"`);
+    this.emit("classroom-archived", this);
+    return lab;
+  }
+
+  /**
+   * Makes an archived classroom active again
+   * Emits 'classroom-restored' event for real-time updates
+   */
+  restore(): void {
+    if (!this.archivedAt) {
+      return;
+    }
+
+    this.archivedAt = undefined;
+    logger.classroom(`Restored classroom "${this.name}"`);
+    this.emit("classroom-restored", this);
+  }
+
+  /**
+   * Serializes the classroom state into a plain JSON-compatible object
+   *
+   * @returns The serialized classroom data
+   */
+  toJSON(): ClassroomData {
+    return {
+      id: this.id,
+      name: this.name,
+      description: this.description,
+      groups: this.groups,
+      groupNames: this.groupNames,
+      maxGroupSize: this.maxGroupSize,
+      groupsLocked: this.groupsLocked,
+      groupChangeRequests: this.groupChangeRequests.map((request) => ({
+        ...request,
+        requestedAt: request.requestedAt.toISOString(),
+        reviewedAt: request.reviewedAt?.toISOString(),
+      })),
+      groupSpaceType: this.groupSpaceType,
+      groupSpaces: Object.fromEntries(this.groupSpaces),
+      groupLeaders: Object.fromEntries(this.groupLeaders),
+      ownerId: this.ownerId,
+      guildId: this.guildId,
+      staff: Object.fromEntries(this.staff),
+      roster: this.roster,
+      students: this.students.map((student) => ({
+        id: student.id,
+        name: student.name,
+        group: student.group,
+        completedLabs: Object.fromEntries(
+          Array.from(student.completedLabs, ([labId, completion]) => [
+            labId,
+            {
+              completedAt: completion.completedAt?.toISOString(),
+              late: completion.late,
+              group: completion.group,
+              completedBy: completion.completedBy,
+            },
+          ]),
+        ),
+        labProgress: Object.fromEntries(student.labProgress),
+        failedAttempts: Object.fromEntries(
+          Array.from(student.failedAttempts, ([labId, attempts]) => [
+            labId,
+            attempts.map((attempt) => attempt.toISOString()),
+          ]),
+        ),
+        groupHistory: student.groupHistory.map((change) => ({
+          ...change,
+          at: change.at.toISOString(),
+        })),
+        studentNumber: student.studentNumber,
+        realName: student.realName,
+        ...this.participation.studentToJSON(student.id),
+      })),
+      activeLabSession:
+        this.activeLabSession && serializeLab(this.activeLabSession),
+      labHistory: this.labHistory.map(serializeLab),
+      helpRequests: this.helpRequests.map((request) => ({
+        ...request,
+        requestedAt: request.requestedAt.toISOString(),
+        claimedAt: request.claimedAt?.toISOString(),
+        resolvedAt: request.resolvedAt?.toISOString(),
+      })),
+      submissions: this.submissions.map((submission) => ({
+        ...submission,
+        submittedAt: submission.submittedAt.toISOString(),
+        reviewedAt: submission.reviewedAt?.toISOString(),
+      })),
+      attendance: this.attendance.toJSON(),
+      quizzes: this.quizzes.toJSON(),
+      peerReviews: this.peerReviews.toJSON(),
+      thanks: this.participation.toJSON(),
+      completionOverrides: this.overrides.toJSON(),
+      archivedAt: this.archivedAt?.toISOString(),
+    };
+  }
+
+  /**
+   * Restores a classroom from its serialized form
+   * Does not emit any events, as the state is being rehydrated rather than changed
+   *
+   * @param data - The serialized classroom data
+   * @returns The restored classroom instance
+   */
+  static fromJSON(data: ClassroomData): Classroom {
+    const classroom = new Classroom(
+      data.id,
+      data.name,
+      data.groups,
+      data.ownerId,
+    );
+    classroom.description = data.description;
+    classroom.groupNames = data.groupNames ?? [];
+    classroom.maxGroupSize = data.maxGroupSize;
+    classroom.groupsLocked = data.groupsLocked ?? false;
+    classroom.groupChangeRequests = (data.groupChangeRequests ?? []).map(
+      (request) => ({
+        ...request,
+        requestedAt: new Date(request.requestedAt),
+        reviewedAt: request.reviewedAt
+          ? new Date(request.reviewedAt)
+          : undefined,
+      }),
+    );
+    classroom.groupSpaceType = data.groupSpaceType;
+    classroom.groupSpaces = new Collection(
+      Object.entries(data.groupSpaces ?? {}).map(([group, channelId]) => [
+        Number(group),
+        channelId,
+      ]),
+    );
+    classroom.groupLeaders = new Collection(
+      Object.entries(data.groupLeaders ?? {}).map(([group, studentId]) => [
+        Number(group),
+        studentId,
+      ]),
+    );
+    classroom.guildId = data.guildId;
+    classroom.staff = new Collection(Object.entries(data.staff ?? {}));
+    classroom.roster = data.roster ?? [];
+
+    for (const student of data.students) {
+      classroom.students.set(student.id, {
+        id: student.id,
+        name: student.name,
+        group: student.group,
+        completedLabs: new Map(
+          Array.isArray(student.completedLabs)
+            ? student.completedLabs.map((labId) => [labId, {}])
+            : Object.entries(student.completedLabs).map(
+                ([labId, completion]) => [
+                  labId,
+                  {
+                    completedAt: completion.completedAt
+                      ? new Date(completion.completedAt)
+                      : undefined,
+                    late: completion.late,
+                    group: completion.group,
+                    completedBy: completion.completedBy,
+                  },
+                ],
+              ),
+        ),
+        labProgress: new Map(Object.entries(student.labProgress ?? {})),
+        failedAttempts: new Map(
+          Object.entries(student.failedAttempts ?? {}).map(
+            ([labId, attempts]) => [
+              labId,
+              attempts.map((attempt) => new Date(attempt)),
+            ],
+          ),
+        ),
+        groupHistory: (student.groupHistory ?? []).map((change) => ({
+          ...change,
+          at: new Date(change.at),
+        })),
+        studentNumber: student.studentNumber,
+        realName: student.realName,
+      });
+      classroom.participation.loadStudent(student);
+    }
+
+    if (data.activeLabSession) {
+      classroom.activeLabSession = deserializeLab(data.activeLabSession);
+    }
+    classroom.labHistory = (data.labHistory ?? []).map(deserializeLab);
+    classroom.helpRequests = (data.helpRequests ?? []).map((request) => ({
+      ...request,
+      requestedAt: new Date(request.requestedAt),
+      claimedAt: request.claimedAt ? new Date(request.claimedAt) : undefined,
+      resolvedAt: request.resolvedAt ? new Date(request.resolvedAt) : undefined,
+    }));
+    classroom.submissions = (data.submissions ?? []).map((submission) => ({
+      ...submission,
+      submittedAt: new Date(submission.submittedAt),
+      reviewedAt: submission.reviewedAt
+        ? new Date(submission.reviewedAt)
+        : undefined,
+    }));
+    classroom.attendance.load(data.attendance ?? []);
+    classroom.quizzes.load(data.quizzes ?? []);
+    classroom.peerReviews.load(data.peerReviews ?? []);
+    classroom.participation.load(data.thanks ?? []);
+    classroom.overrides.load(data.completionOverrides ?? []);
+    classroom.archivedAt = data.archivedAt
+      ? new Date(data.archivedAt)
+      : undefined;
+
+    return classroom;
+  }
+}
+
+/**
+ * Creates the record of a student who has not done anything in a classroom yet
+ *
+ * @param id - The Discord user ID of the student
+ * @param name - The Discord username of the student
+ * @returns The new student, not yet added to any classroom
+ */
+export function createStudent(id: string, name: string): Student {
+  return {
+    id,
+    name,
+    completedLabs: new Map(),
+    labProgress: new Map(),
+    failedAttempts: new Map(),
+    groupHistory: [],
+  };
+}
+
+/**
+ * Hashes an expected or given answer of a lab
+ * Salted with the lab ID so equal answers of different labs do not share a hash
+ *
+ * @param labId - The ID of the lab session
+ * @param answer - The answer to hash
+ * @returns The hex-encoded SHA-256 hash
+ */
+function hashAnswer(labId: string, answer: string): string {
+  return createHash("sha256").update(`${labId}:${answer.trim()}`).digest("hex");
+}
+
+/**
+ * Converts a lab session into its serialized form
+ *
+ * @param lab - The lab session to serialize
+ * @returns The serialized lab session
+ */
+function serializeLab(lab: LabSession): LabSessionData {
+  return {
+    ...lab,
+    startTime: lab.startTime.toISOString(),
+    endTime: lab.endTime?.toISOString(),
+    deadline: lab.deadline?.toISOString(),
+    alertSentAt: lab.alertSentAt?.toISOString(),
+  };
+}
+
+/**
+ * Restores a lab session from its serialized form
+ *
+ * @param data - The serialized lab session
+ * @returns The restored lab session
+ */
+function deserializeLab(data: LabSessionData): LabSession {
+  // Drop answer patterns of older versions, so they are no longer stored in plain text
+  const { answerPattern, ...lab } = data;
+  if (answerPattern) {
+    logger.classroom(
+      `Dropped the answer pattern of lab "${data.name}", its answer is no longer checked`,
+    );
+  }
+
+  return {
+    ...lab,
+    startTime: new Date(data.startTime),
+    endTime: data.endTime ? new Date(data.endTime) : undefined,
+    deadline: data.deadline ? new Date(data.deadline) : undefined,
+    alertSentAt: data.alertSentAt ? new Date(data.alertSentAt) : undefined,
+  };
 }
 
 /**
@@ -221,3 +2148,86 @@ export class Classroom extends EventEmitter {
  * Key: Thread ID, Value: Classroom instance
  */
 export const classrooms = new Collection<string, Classroom>();
+
+/**
+ * Classrooms whose thread was archived, locked or deleted
+ * Kept apart so buttons and commands stop acting on them, but still available for export
+ */
+export const archivedClassrooms = new Collection<string, Classroom>();
+
+/**
+ * Notifies interested modules (e.g. persistence) whenever a classroom
+ * is added to the global store
+ */
+const registry = new EventEmitter<{ registered: [classroom: Classroom] }>();
+
+/**
+ * Adds a classroom to the global store and notifies registry listeners
+ *
+ * @param classroom - The classroom to register
+ */
+export function registerClassroom(classroom: Classroom): void {
+  if (classroom.archivedAt) {
+    archivedClassrooms.set(classroom.id, classroom);
+  } else {
+    classrooms.set(classroom.id, classroom);
+  }
+  registry.emit("registered", classroom);
+}
+
+/**
+ * Archives an active classroom and moves it to the archived store
+ *
+ * @param id - The thread ID of the classroom
+ * @returns The archived classroom, or undefined if no active classroom has this ID
+ */
+export function archiveClassroom(id: string): Classroom | undefined {
+  const classroom = classrooms.get(id);
+  if (!classroom) {
+    return undefined;
+  }
+
+  classrooms.delete(id);
+  archivedClassrooms.set(id, classroom);
+  classroom.archive();
+  return classroom;
+}
+
+/**
+ * Restores an archived classroom and moves it back to the active store
+ *
+ * @param id - The thread ID of the classroom
+ * @returns The restored classroom, or undefined if no archived classroom has this ID
+ */
+export function restoreClassroom(id: string): Classroom | undefined {
+  const classroom = archivedClassrooms.get(id);
+  if (!classroom) {
+    return undefined;
+  }
+
+  archivedClassrooms.delete(id);
+  classrooms.set(id, classroom);
+  classroom.restore();
+  return classroom;
+}
+
+/**
+ * Finds a classroom by its thread ID, whether active or archived
+ *
+ * @param id - The thread ID of the classroom
+ * @returns The classroom if found, undefined otherwise
+ */
+export function findClassroom(id: string): Classroom | undefined {
+  return classrooms.get(id) ?? archivedClassrooms.get(id);
+}
+
+/**
+ * Subscribes to classrooms being added to the global store
+ *
+ * @param listener - Called with every classroom registered from now on
+ */
+export function onClassroomRegistered(
+  listener: (classroom: Classroom) => void,
+): void {
+  registry.on("registered", listener);
+}
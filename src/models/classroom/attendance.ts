@@ -0,0 +1,246 @@
+import logger from "../../utils/logger.js";
+import type { Classroom, RosterEntry, Student } from "../classroom.js";
+
+/**
+ * A student's check-in to an attendance session
+ */
+export interface AttendanceCheckIn {
+  studentId: string; // Discord user ID of the student
+  at: Date; // When the student checked in
+  late: boolean; // Whether the check-in came after the on-time window
+}
+
+/**
+ * An attendance session with an on-time window followed by a late window
+ */
+export interface AttendanceSession {
+  id: string; // Unique identifier for the session
+  startTime: Date; // When check-in opened
+  lateAfter: Date; // Check-ins after this time are marked late
+  closesAt: Date; // No check-ins are accepted after this time
+  messageId?: string; // The message holding the check-in button
+  checkIns: AttendanceCheckIn[]; // Check-ins in the order they happened
+}
+
+/**
+ * Attendance of a session, split by outcome
+ */
+export interface AttendanceSummary {
+  onTime: Student[]; // Students who checked in on time
+  late: Student[]; // Students who checked in late
+  absent: Student[]; // Enrolled students who did not check in
+  absentRoster: RosterEntry[]; // Roster rows not linked to any enrolled student
+}
+
+/**
+ * Serialized attendance session, as written to persistent storage
+ */
+export interface AttendanceSessionData {
+  id: string;
+  startTime: string; // ISO 8601 timestamp
+  lateAfter: string; // ISO 8601 timestamp
+  closesAt: string; // ISO 8601 timestamp
+  messageId?: string;
+  checkIns: { studentId: string; at: string; late: boolean }[];
+}
+
+/**
+ * Attendance sessions of a classroom
+ * Emits its events on the classroom, like the rest of the classroom state
+ */
+export class ClassroomAttendance {
+  public list: AttendanceSession[] = []; // Attendance sessions, oldest first
+  private classroom: Classroom;
+
+  /**
+   * Creates the empty attendance record of a classroom
+   *
+   * @param classroom - The classroom whose attendance is taken
+   */
+  constructor(classroom: Classroom) {
+    this.classroom = classroom;
+  }
+
+  /**
+   * Opens a new attendance session
+   * Emits 'attendance-started' event for real-time updates
+   *
+   * @param onTimeMs - How long check-ins count as on time
+   * @param lateMs - How long late check-ins are accepted after the on-time window
+   * @returns The new attendance session
+   * @throws Error if another attendance session is still open
+   */
+  start(onTimeMs: number, lateMs: number): AttendanceSession {
+    if (this.getOpen()) {
+      logger.classroom(
+        `Failed to start attendance in "${this.classroom.name}" - another session is open`,
+      );
+      throw new Error("An attendance session is already open");
+    }
+
+    const startTime = new Date();
+    const session: AttendanceSession = {
+      id: startTime.getTime().toString(),
+      startTime,
+      lateAfter: new Date(startTime.getTime() + onTimeMs),
+      closesAt: new Date(startTime.getTime() + onTimeMs + lateMs),
+      checkIns: [],
+    };
+    this.list.push(session);
+
+    logger.classroom(`Started attendance session in "${this.classroom.name}"`);
+    this.classroom.emit("attendance-started", session);
+    return session;
+  }
+
+  /**
+   * Retrieves an attendance session by its ID
+   *
+   * @param sessionId - The ID of the attendance session
+   * @returns The attendance session if found, undefined otherwise
+   */
+  get(sessionId: string): AttendanceSession | undefined {
+    return this.list.find((session) => session.id === sessionId);
+  }
+
+  /**
+   * Finds the attendance session that still accepts check-ins
+   *
+   * @param now - The time to check against (default: now)
+   * @returns The open attendance session, or undefined if none is open
+   */
+  getOpen(now = new Date()): AttendanceSession | undefined {
+    return this.list.find((session) => session.closesAt > now);
+  }
+
+  /**
+   * Records the message that holds the check-in button of an attendance session
+   * Emits 'attendance-updated' event for real-time updates
+   *
+   * @param sessionId - The ID of the attendance session
+   * @param messageId - The Discord message ID of the check-in message
+   * @returns true if successful, false if the session was not found
+   */
+  setMessage(sessionId: string, messageId: string): boolean {
+    const session = this.get(sessionId);
+    if (!session) {
+      logger.classroom(
+        `Failed to set message for unknown attendance session ${sessionId}`,
+      );
+      return false;
+    }
+
+    session.messageId = messageId;
+    this.classroom.emit("attendance-updated", session);
+    return true;
+  }
+
+  /**
+   * Checks a student in to an attendance session, marking them late after the on-time window
+   * Emits 'attendance-checked-in' event for real-time updates
+   *
+   * @param sessionId - The ID of the attendance session
+   * @param studentId - The Discord user ID of the student
+   * @param at - The time of the check-in (default: now)
+   * @returns The check-in (the earlier one if the student already checked in),
+   * or null if the session is closed or the student or session was not found
+   */
+  checkIn(
+    sessionId: string,
+    studentId: string,
+    at = new Date(),
+  ): AttendanceCheckIn | null {
+    const session = this.get(sessionId);
+    if (
+      !session ||
+      !this.classroom.students.has(studentId) ||
+      at >= session.closesAt
+    ) {
+      logger.classroom(
+        `Failed to check in student ${studentId} - session closed or not found`,
+      );
+      return null;
+    }
+
+    const existing = session.checkIns.find(
+      (checkIn) => checkIn.studentId === studentId,
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const checkIn = { studentId, at, late: at > session.lateAfter };
+    session.checkIns.push(checkIn);
+    logger.classroom(
+      `Student ${studentId} checked in${checkIn.late ? " late" : ""} to attendance ${sessionId}`,
+    );
+    this.classroom.emit("attendance-checked-in", checkIn, session);
+    return checkIn;
+  }
+
+  /**
+   * Splits the students of the classroom by their attendance of a session
+   *
+   * @param sessionId - The ID of the attendance session
+   * @returns The attendance summary, or null if the session was not found
+   */
+  getSummary(sessionId: string): AttendanceSummary | null {
+    const session = this.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    const checkIns = new Map(
+      session.checkIns.map((checkIn) => [checkIn.studentId, checkIn]),
+    );
+    const { students, roster } = this.classroom;
+    const enrolled = Array.from(students.values());
+
+    return {
+      onTime: enrolled.filter(
+        (student) => checkIns.get(student.id)?.late === false,
+      ),
+      late: enrolled.filter((student) => checkIns.get(student.id)?.late),
+      absent: enrolled.filter((student) => !checkIns.has(student.id)),
+      absentRoster: roster.filter(
+        (entry) => !entry.discordId || !students.has(entry.discordId),
+      ),
+    };
+  }
+
+  /**
+   * Serializes the attendance sessions into plain JSON-compatible objects
+   *
+   * @returns The serialized attendance sessions
+   */
+  toJSON(): AttendanceSessionData[] {
+    return this.list.map((session) => ({
+      ...session,
+      startTime: session.startTime.toISOString(),
+      lateAfter: session.lateAfter.toISOString(),
+      closesAt: session.closesAt.toISOString(),
+      checkIns: session.checkIns.map((checkIn) => ({
+        ...checkIn,
+        at: checkIn.at.toISOString(),
+      })),
+    }));
+  }
+
+  /**
+   * Restores the attendance sessions from their serialized form, without emitting events
+   *
+   * @param data - The serialized attendance sessions
+   */
+  load(data: AttendanceSessionData[]): void {
+    this.list = data.map((session) => ({
+      ...session,
+      startTime: new Date(session.startTime),
+      lateAfter: new Date(session.lateAfter),
+      closesAt: new Date(session.closesAt),
+      checkIns: session.checkIns.map((checkIn) => ({
+        ...checkIn,
+        at: new Date(checkIn.at),
+      })),
+    }));
+  }
+}
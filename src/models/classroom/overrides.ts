@@ -0,0 +1,186 @@
+import logger from "../../utils/logger.js";
+import type { Classroom } from "../classroom.js";
+
+/**
+ * A change of a student's lab completion made by staff
+ * - mark: the lab was marked complete, e.g. after finishing offline
+ * - unmark: the completion was removed, e.g. after a wrong click
+ */
+export interface CompletionOverride {
+  studentId: string; // Discord user ID of the student
+  labId: string; // The lab whose completion was changed
+  action: "mark" | "unmark";
+  by: string; // Discord user ID of the staff member who made the change
+  reason: string; // Why the change was made
+  at: Date; // When the change was made
+}
+
+/**
+ * Serialized completion override, as written to persistent storage
+ */
+export interface CompletionOverrideData {
+  studentId: string;
+  labId: string;
+  action: CompletionOverride["action"];
+  by: string;
+  reason: string;
+  at: string; // ISO 8601 timestamp
+}
+
+/**
+ * Lab completions changed by the staff of a classroom
+ * Emits its events on the classroom, like the rest of the classroom state
+ */
+export class ClassroomOverrides {
+  public list: CompletionOverride[] = []; // Completion changes made by staff, oldest first
+  private classroom: Classroom;
+
+  /**
+   * Creates the empty completion overrides of a classroom
+   *
+   * @param classroom - The classroom whose completions staff change
+   */
+  constructor(classroom: Classroom) {
+    this.classroom = classroom;
+  }
+
+  /**
+   * Marks any lab, active or ended, as completed for a student on behalf of staff
+   * The completion is never flagged late, as staff decided it counts
+   * In labs where one member completes for their group, the rest of the group completes it as well
+   * Emits 'lab-completed' and 'completion-overridden' events for real-time updates
+   *
+   * @param studentId - The Discord user ID of the student
+   * @param labId - The ID of the lab session
+   * @param by - The Discord user ID of the staff member
+   * @param reason - Why the lab is marked complete
+   * @returns The override, or null if the lab or student was not found or the lab is already completed
+   */
+  mark(
+    studentId: string,
+    labId: string,
+    by: string,
+    reason: string,
+  ): CompletionOverride | null {
+    const lab = this.classroom.getLab(labId);
+    const student = this.classroom.students.get(studentId);
+    if (!lab || !student || student.completedLabs.has(lab.id)) {
+      logger.classroom(
+        `Failed to mark lab ${labId} complete for student ${studentId} - not found or already completed`,
+      );
+      return null;
+    }
+
+    const override: CompletionOverride = {
+      studentId,
+      labId,
+      action: "mark",
+      by,
+      reason,
+      at: new Date(),
+    };
+    this.list.push(override);
+
+    logger.classroom(
+      `${by} marked lab "${lab.name}" complete for student "${student.name}"`,
+    );
+    this.classroom.recordCompletion(student, lab, {
+      completedAt: override.at,
+      group: student.group,
+    });
+    this.classroom.emit("completion-overridden", override, student, lab);
+    return override;
+  }
+
+  /**
+   * Removes the completion of any lab, active or ended, from a student on behalf of staff
+   * Teammates who completed the lab through the student lose that completion too
+   * Emits 'completion-overridden' event for the student and every such teammate
+   *
+   * @param studentId - The Discord user ID of the student
+   * @param labId - The ID of the lab session
+   * @param by - The Discord user ID of the staff member
+   * @param reason - Why the completion is removed
+   * @returns The override, or null if the lab or student was not found or the lab is not completed
+   */
+  unmark(
+    studentId: string,
+    labId: string,
+    by: string,
+    reason: string,
+  ): CompletionOverride | null {
+    const lab = this.classroom.getLab(labId);
+    const student = this.classroom.students.get(studentId);
+    if (!lab || !student || !student.completedLabs.has(lab.id)) {
+      logger.classroom(
+        `Failed to unmark lab ${labId} for student ${studentId} - not found or not completed`,
+      );
+      return null;
+    }
+
+    const teammates = this.classroom.students.filter(
+      (member) => member.completedLabs.get(lab.id)?.completedBy === studentId,
+    );
+
+    const overrides = [student, ...teammates.values()].map((member) => {
+      member.completedLabs.delete(lab.id);
+      const override: CompletionOverride = {
+        studentId: member.id,
+        labId,
+        action: "unmark",
+        by,
+        reason,
+        at: new Date(),
+      };
+      this.list.push(override);
+
+      logger.classroom(
+        `${by} unmarked lab "${lab.name}" for student "${member.name}"`,
+      );
+      this.classroom.emit("completion-overridden", override, member, lab);
+      return override;
+    });
+
+    return overrides[0];
+  }
+
+  /**
+   * Gets the latest staff change of a student's completion of a lab
+   *
+   * @param studentId - The Discord user ID of the student
+   * @param labId - The ID of the lab session
+   * @returns The latest override, or undefined if staff never changed the completion
+   */
+  getLatest(studentId: string, labId: string): CompletionOverride | undefined {
+    return this.list
+      .filter(
+        (override) =>
+          override.studentId === studentId && override.labId === labId,
+      )
+      .at(-1);
+  }
+
+  /**
+   * Serializes the completion overrides into plain JSON-compatible objects
+   *
+   * @returns The serialized completion overrides
+   */
+  toJSON(): CompletionOverrideData[] {
+    return this.list.map((override) => ({
+      ...override,
+      at: override.at.toISOString(),
+    }));
+  }
+
+  /**
+   * Restores the completion overrides from their serialized form, without emitting events
+   *
+   * @param data - The serialized completion overrides
+   */
+  load(data: CompletionOverrideData[]): void {
+    this.list = data.map((override) => ({
+      ...override,
+      at: new Date(override.at),
+    }));
+  }
+}
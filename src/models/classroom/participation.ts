@@ -0,0 +1,288 @@
+import { Collection } from "discord.js";
+import logger from "../../utils/logger.js";
+import type { Classroom, StudentData } from "../classroom.js";
+
+// Time before a student can thank the same classmate again
+const THANKS_COOLDOWN = 24 * 60 * 60 * 1000; // 1 day
+
+/**
+ * Activities for which students are awarded participation points
+ */
+export type PointReason =
+  | "joined"
+  | "lab-completed"
+  | "early-completion"
+  | "completion-revoked"
+  | "helped"
+  | "attendance";
+
+/**
+ * Participation points awarded to a student for one activity
+ */
+export interface PointAward {
+  points: number;
+  reason: PointReason;
+  at: Date; // When the points were awarded
+  labId?: string; // The lab the points were awarded for (unset if not lab related)
+}
+
+/**
+ * A badge earned by a student at a participation milestone
+ */
+export interface BadgeAward {
+  badge: string; // ID of the badge
+  at: Date; // When the badge was earned
+}
+
+/**
+ * A student thanking a classmate for their help
+ */
+export interface Thanks {
+  fromId: string; // Discord user ID of the thanking student
+  toId: string; // Discord user ID of the student who helped
+  at: Date; // When the thanks were given
+}
+
+/**
+ * Serialized participation points, as written to persistent storage
+ */
+export interface PointAwardData {
+  points: number;
+  reason: PointReason;
+  at: string; // ISO 8601 timestamp
+  labId?: string;
+}
+
+/**
+ * Serialized badge, as written to persistent storage
+ */
+export interface BadgeAwardData {
+  badge: string;
+  at: string; // ISO 8601 timestamp
+}
+
+/**
+ * Serialized thanks between students, as written to persistent storage
+ */
+export interface ThanksData {
+  fromId: string;
+  toId: string;
+  at: string; // ISO 8601 timestamp
+}
+
+/**
+ * Participation points, badges and thanks of the students of a classroom
+ * Points and badges are stored with each student, thanks with the classroom
+ * Emits its events on the classroom, like the rest of the classroom state
+ */
+export class ClassroomParticipation {
+  public thanks: Thanks[] = []; // Thanks between students, oldest first
+  private points: Collection<string, PointAward[]> = new Collection(); // Points of each student, oldest first, keyed by Discord user ID
+  private badges: Collection<string, BadgeAward[]> = new Collection(); // Badges of each student, oldest first, keyed by Discord user ID
+  private classroom: Classroom;
+
+  /**
+   * Creates the empty participation record of a classroom
+   *
+   * @param classroom - The classroom whose students participate
+   */
+  constructor(classroom: Classroom) {
+    this.classroom = classroom;
+  }
+
+  /**
+   * Awards participation points to a student
+   * Emits 'points-awarded' event for real-time updates
+   *
+   * @param studentId - The Discord user ID of the student
+   * @param points - The number of points to award
+   * @param reason - The activity the points are awarded for
+   * @param labId - The lab the points are awarded for, if any
+   * @returns The award, or null if no points were awarded or the student was not found
+   */
+  awardPoints(
+    studentId: string,
+    points: number,
+    reason: PointReason,
+    labId?: string,
+  ): PointAward | null {
+    const student = this.classroom.students.get(studentId);
+    if (!student || points === 0) {
+      return null;
+    }
+
+    const award: PointAward = { points, reason, at: new Date(), labId };
+    this.points.ensure(studentId, () => []).push(award);
+    logger.classroom(
+      `Awarded ${points} point(s) for ${reason} to student ${studentId} in "${this.classroom.name}"`,
+    );
+    this.classroom.emit("points-awarded", student, award);
+    return award;
+  }
+
+  /**
+   * Gets the participation points awarded to a student
+   *
+   * @param studentId - The Discord user ID of the student
+   * @returns The student's awards, oldest first
+   */
+  getPointAwards(studentId: string): PointAward[] {
+    return this.points.get(studentId) ?? [];
+  }
+
+  /**
+   * Totals the participation points of a student
+   *
+   * @param studentId - The Discord user ID of the student
+   * @returns The student's points (0 if the student has none)
+   */
+  getPoints(studentId: string): number {
+    return this.getPointAwards(studentId).reduce(
+      (total, award) => total + award.points,
+      0,
+    );
+  }
+
+  /**
+   * Awards a badge to a student, once
+   * Emits 'badge-awarded' event for real-time updates
+   *
+   * @param studentId - The Discord user ID of the student
+   * @param badge - The ID of the badge
+   * @returns true if the badge was awarded, false if the student already has it or was not found
+   */
+  awardBadge(studentId: string, badge: string): boolean {
+    const student = this.classroom.students.get(studentId);
+    if (
+      !student ||
+      this.getBadges(studentId).some((award) => award.badge === badge)
+    ) {
+      return false;
+    }
+
+    const award: BadgeAward = { badge, at: new Date() };
+    this.badges.ensure(studentId, () => []).push(award);
+    logger.classroom(
+      `Student ${studentId} earned badge ${badge} in "${this.classroom.name}"`,
+    );
+    this.classroom.emit("badge-awarded", student, award);
+    return true;
+  }
+
+  /**
+   * Gets the badges earned by a student
+   *
+   * @param studentId - The Discord user ID of the student
+   * @returns The student's badges, oldest first
+   */
+  getBadges(studentId: string): BadgeAward[] {
+    return this.badges.get(studentId) ?? [];
+  }
+
+  /**
+   * Records a student thanking a classmate for their help
+   * A student can thank the same classmate once a day
+   * Emits 'student-thanked' event for real-time updates
+   *
+   * @param fromId - The Discord user ID of the thanking student
+   * @param toId - The Discord user ID of the student who helped
+   * @param at - When the thanks were given (default: now)
+   * @returns The thanks, or null if either user is not a student, they are the same
+   * or the classmate was already thanked within a day
+   */
+  thank(fromId: string, toId: string, at = new Date()): Thanks | null {
+    const { students } = this.classroom;
+    if (fromId === toId || !students.has(fromId) || !students.has(toId)) {
+      logger.classroom(
+        `Failed to record thanks from ${fromId} to ${toId} - not classmates`,
+      );
+      return null;
+    }
+
+    const recent = this.thanks.some(
+      (thanks) =>
+        thanks.fromId === fromId &&
+        thanks.toId === toId &&
+        at.getTime() - thanks.at.getTime() < THANKS_COOLDOWN,
+    );
+    if (recent) {
+      logger.classroom(
+        `Failed to record thanks from ${fromId} to ${toId} - already thanked today`,
+      );
+      return null;
+    }
+
+    const thanks: Thanks = { fromId, toId, at };
+    this.thanks.push(thanks);
+    logger.classroom(
+      `Student ${fromId} thanked ${toId} in classroom "${this.classroom.name}"`,
+    );
+    this.classroom.emit("student-thanked", thanks);
+    return thanks;
+  }
+
+  /**
+   * Serializes the points and badges of a student, which are stored with the student
+   *
+   * @param studentId - The Discord user ID of the student
+   * @returns The serialized points and badges
+   */
+  studentToJSON(studentId: string): Pick<StudentData, "points" | "badges"> {
+    return {
+      points: this.getPointAwards(studentId).map((award) => ({
+        ...award,
+        at: award.at.toISOString(),
+      })),
+      badges: this.getBadges(studentId).map((award) => ({
+        ...award,
+        at: award.at.toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * Serializes the thanks between students into plain JSON-compatible objects
+   *
+   * @returns The serialized thanks
+   */
+  toJSON(): ThanksData[] {
+    return this.thanks.map((thanks) => ({
+      ...thanks,
+      at: thanks.at.toISOString(),
+    }));
+  }
+
+  /**
+   * Restores the points and badges of a student from their serialized form, without emitting events
+   *
+   * @param student - The serialized student
+   */
+  loadStudent(student: StudentData): void {
+    this.points.set(
+      student.id,
+      (student.points ?? []).map((award) => ({
+        ...award,
+        at: new Date(award.at),
+      })),
+    );
+    this.badges.set(
+      student.id,
+      (student.badges ?? []).map((award) => ({
+        ...award,
+        at: new Date(award.at),
+      })),
+    );
+  }
+
+  /**
+   * Restores the thanks between students from their serialized form, without emitting events
+   *
+   * @param data - The serialized thanks
+   */
+  load(data: ThanksData[]): void {
+    this.thanks = data.map((thanks) => ({
+      ...thanks,
+      at: new Date(thanks.at),
+    }));
+  }
+}
@@ -0,0 +1,245 @@
+import logger from "../../utils/logger.js";
+import type { Classroom, Student } from "../classroom.js";
+
+/**
+ * A student's review of a classmate's work on a lab
+ */
+export interface PeerReview {
+  id: string; // Unique identifier for the review
+  labId: string; // The lab whose work is reviewed
+  reviewerId: string; // Discord user ID of the reviewing student
+  revieweeId: string; // Discord user ID of the student whose work is reviewed
+  assignedAt: Date; // When the review was assigned
+  rating?: number; // Rating from 1 to 5 (unset until submitted)
+  comment?: string; // The reviewer's feedback (unset until submitted)
+  submittedAt?: Date; // When the review was submitted (unset until submitted)
+}
+
+/**
+ * Peer feedback on a lab, aggregated over its reviews
+ */
+export interface PeerReviewSummary {
+  assigned: number; // Number of reviews assigned
+  submitted: number; // Number of reviews submitted
+  averageRating: number | null; // Average rating of the submitted reviews, null if none
+}
+
+/**
+ * Serialized peer review, as written to persistent storage
+ */
+export interface PeerReviewData {
+  id: string;
+  labId: string;
+  reviewerId: string;
+  revieweeId: string;
+  assignedAt: string; // ISO 8601 timestamp
+  rating?: number;
+  comment?: string;
+  submittedAt?: string; // ISO 8601 timestamp
+}
+
+/**
+ * Peer reviews of the ended labs of a classroom
+ * Emits its events on the classroom, like the rest of the classroom state
+ */
+export class ClassroomPeerReviews {
+  public list: PeerReview[] = []; // Peer reviews of ended labs, oldest first
+  private classroom: Classroom;
+
+  /**
+   * Creates the empty peer reviews of a classroom
+   *
+   * @param classroom - The classroom whose students review each other
+   */
+  constructor(classroom: Classroom) {
+    this.classroom = classroom;
+  }
+
+  /**
+   * Pairs every student who completed an ended lab with a reviewer from another group
+   * Completers are sorted by group and each is reviewed by the one a largest group further along,
+   * so everyone reviews exactly one classmate as long as no group holds more than half of them.
+   * Students the rotation leaves without a reviewer get the least busy completer from another group,
+   * who then reviews more than one classmate. Students without a group may be paired with anyone.
+   * Emits 'peer-reviews-assigned' event for real-time updates
+   *
+   * @param labId - The ID of the lab session
+   * @returns The assigned reviews, leaving out students whose group holds everyone else who completed the lab
+   * @throws Error if the lab has not ended or its peer reviews were already assigned
+   */
+  assign(labId: string): PeerReview[] {
+    const lab = this.classroom.getLab(labId);
+    if (!lab?.endTime) {
+      throw new Error("Peer reviews can only be assigned for ended labs");
+    }
+    if (this.list.some((review) => review.labId === labId)) {
+      throw new Error("Peer reviews were already assigned for this lab");
+    }
+
+    const completers = Array.from(this.classroom.students.values())
+      .filter((student) => student.completedLabs.has(labId))
+      .sort((a, b) => (a.group ?? Infinity) - (b.group ?? Infinity));
+
+    const sizes = new Map<number, number>();
+    for (const student of completers) {
+      if (student.group !== undefined) {
+        sizes.set(student.group, (sizes.get(student.group) ?? 0) + 1);
+      }
+    }
+    const shift = Math.max(1, ...sizes.values());
+
+    const canReview = (reviewer: Student, reviewee: Student) =>
+      reviewer.id !== reviewee.id &&
+      (reviewer.group === undefined || reviewer.group !== reviewee.group);
+
+    // Rotate by the largest group, so that every reviewer is picked once
+    const reviewers = new Map<string, Student>();
+    completers.forEach((reviewee, index) => {
+      const reviewer = completers[(index + shift) % completers.length];
+      if (canReview(reviewer, reviewee)) {
+        reviewers.set(reviewee.id, reviewer);
+      }
+    });
+
+    // Wrapping around into the same group leaves some unpaired, so spread them over the least busy reviewers
+    const load = new Map<string, number>();
+    for (const reviewer of reviewers.values()) {
+      load.set(reviewer.id, (load.get(reviewer.id) ?? 0) + 1);
+    }
+    for (const reviewee of completers) {
+      if (reviewers.has(reviewee.id)) {
+        continue;
+      }
+
+      const reviewer = completers
+        .filter((candidate) => canReview(candidate, reviewee))
+        .sort((a, b) => (load.get(a.id) ?? 0) - (load.get(b.id) ?? 0))[0];
+      if (reviewer) {
+        reviewers.set(reviewee.id, reviewer);
+        load.set(reviewer.id, (load.get(reviewer.id) ?? 0) + 1);
+      }
+    }
+
+    const assignedAt = new Date();
+    const reviews: PeerReview[] = completers
+      .filter((reviewee) => reviewers.has(reviewee.id))
+      .map((reviewee) => ({
+        id: `${labId}-${reviewee.id}`,
+        labId,
+        reviewerId: reviewers.get(reviewee.id)!.id,
+        revieweeId: reviewee.id,
+        assignedAt,
+      }));
+    this.list.push(...reviews);
+
+    logger.classroom(
+      `Assigned ${reviews.length} peer review(s) for lab "${lab.name}" (${completers.length - reviews.length} student(s) unpaired)`,
+    );
+    this.classroom.emit("peer-reviews-assigned", reviews, lab);
+    return reviews;
+  }
+
+  /**
+   * Retrieves a peer review by its ID
+   *
+   * @param reviewId - The ID of the review
+   * @returns The review if found, undefined otherwise
+   */
+  get(reviewId: string): PeerReview | undefined {
+    return this.list.find((review) => review.id === reviewId);
+  }
+
+  /**
+   * Gets the peer reviews of a lab
+   *
+   * @param labId - The ID of the lab session
+   * @returns The reviews of the lab, in assignment order
+   */
+  getForLab(labId: string): PeerReview[] {
+    return this.list.filter((review) => review.labId === labId);
+  }
+
+  /**
+   * Records the rating and comment of a peer review, which can only be given once
+   * Emits 'peer-review-submitted' event for real-time updates
+   *
+   * @param reviewId - The ID of the review
+   * @param reviewerId - The Discord user ID of the student submitting the review
+   * @param rating - Rating from 1 to 5
+   * @param comment - The reviewer's feedback
+   * @returns The submitted review, or null if not found, assigned to someone else or already submitted
+   */
+  submit(
+    reviewId: string,
+    reviewerId: string,
+    rating: number,
+    comment: string,
+  ): PeerReview | null {
+    const review = this.get(reviewId);
+    if (!review || review.reviewerId !== reviewerId || review.submittedAt) {
+      logger.classroom(
+        `Failed to submit peer review ${reviewId} by ${reviewerId} - not found, not assigned or already submitted`,
+      );
+      return null;
+    }
+
+    review.rating = Math.min(5, Math.max(1, Math.round(rating)));
+    review.comment = comment;
+    review.submittedAt = new Date();
+
+    logger.classroom(`Peer review ${reviewId} submitted by ${reviewerId}`);
+    this.classroom.emit("peer-review-submitted", review);
+    return review;
+  }
+
+  /**
+   * Aggregates the peer reviews of a lab
+   *
+   * @param labId - The ID of the lab session
+   * @returns The number of assigned and submitted reviews and their average rating
+   */
+  getSummary(labId: string): PeerReviewSummary {
+    const reviews = this.getForLab(labId);
+    const ratings = reviews
+      .filter((review) => review.rating !== undefined)
+      .map((review) => review.rating!);
+
+    return {
+      assigned: reviews.length,
+      submitted: ratings.length,
+      averageRating:
+        ratings.length > 0
+          ? ratings.reduce((total, rating) => total + rating, 0) /
+            ratings.length
+          : null,
+    };
+  }
+
+  /**
+   * Serializes the peer reviews into plain JSON-compatible objects
+   *
+   * @returns The serialized peer reviews
+   */
+  toJSON(): PeerReviewData[] {
+    return this.list.map((review) => ({
+      ...review,
+      assignedAt: review.assignedAt.toISOString(),
+      submittedAt: review.submittedAt?.toISOString(),
+    }));
+  }
+
+  /**
+   * Restores the peer reviews from their serialized form, without emitting events
+   *
+   * @param data - The serialized peer reviews
+   */
+  load(data: PeerReviewData[]): void {
+    this.list = data.map((review) => ({
+      ...review,
+      assignedAt: new Date(review.assignedAt),
+      submittedAt: review.submittedAt
+        ? new Date(review.submittedAt)
+        : undefined,
+    }));
+  }
+}
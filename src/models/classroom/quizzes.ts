@@ -0,0 +1,302 @@
+import logger from "../../utils/logger.js";
+import type { Classroom } from "../classroom.js";
+
+/**
+ * A student's answer to a quiz
+ */
+export interface QuizAnswer {
+  studentId: string; // Discord user ID of the student
+  choice: number; // Index of the chosen answer (0-based)
+  at: Date; // When the student answered
+}
+
+/**
+ * A multiple-choice quiz posted in the classroom thread
+ */
+export interface Quiz {
+  id: string; // Unique identifier for the quiz
+  question: string;
+  choices: string[]; // Answer choices, 2 to 5
+  correctChoice: number; // Index of the correct answer (0-based)
+  startTime: Date; // When the quiz was posted
+  closesAt?: Date; // When answering ends (unset for quizzes without a time limit)
+  closedAt?: Date; // When the quiz was closed and its results revealed (unset while open)
+  messageId?: string; // The message holding the answer buttons
+  answers: QuizAnswer[]; // Answers in the order they were given, one per student
+}
+
+/**
+ * A student's quiz results in a classroom
+ */
+export interface QuizScore {
+  correct: number; // Number of quizzes answered correctly
+  answered: number; // Number of quizzes answered
+  total: number; // Number of quizzes in the classroom
+}
+
+/**
+ * Serialized quiz, as written to persistent storage
+ */
+export interface QuizData {
+  id: string;
+  question: string;
+  choices: string[];
+  correctChoice: number;
+  startTime: string; // ISO 8601 timestamp
+  closesAt?: string; // ISO 8601 timestamp
+  closedAt?: string; // ISO 8601 timestamp
+  messageId?: string;
+  answers: { studentId: string; choice: number; at: string }[];
+}
+
+/**
+ * Multiple-choice quizzes of a classroom
+ * Emits its events on the classroom, like the rest of the classroom state
+ */
+export class ClassroomQuizzes {
+  public list: Quiz[] = []; // Quizzes, oldest first
+  private classroom: Classroom;
+
+  /**
+   * Creates the empty quiz list of a classroom
+   *
+   * @param classroom - The classroom the quizzes are posted in
+   */
+  constructor(classroom: Classroom) {
+    this.classroom = classroom;
+  }
+
+  /**
+   * Posts a new multiple-choice quiz
+   * Emits 'quiz-started' event for real-time updates
+   *
+   * @param question - The question of the quiz
+   * @param choices - The answer choices
+   * @param correctChoice - Index of the correct answer (0-based)
+   * @param timeLimitMs - How long answers are accepted (unset for no time limit)
+   * @returns The new quiz
+   * @throws Error if another quiz is still open or the correct answer is not one of the choices
+   */
+  start(
+    question: string,
+    choices: string[],
+    correctChoice: number,
+    timeLimitMs?: number,
+  ): Quiz {
+    if (this.getOpen()) {
+      logger.classroom(
+        `Failed to start quiz in "${this.classroom.name}" - another quiz is open`,
+      );
+      throw new Error("A quiz is already open");
+    }
+    if (correctChoice < 0 || correctChoice >= choices.length) {
+      throw new Error("The correct answer must be one of the choices");
+    }
+
+    const startTime = new Date();
+    const quiz: Quiz = {
+      id: startTime.getTime().toString(),
+      question,
+      choices,
+      correctChoice,
+      startTime,
+      closesAt: timeLimitMs
+        ? new Date(startTime.getTime() + timeLimitMs)
+        : undefined,
+      answers: [],
+    };
+    this.list.push(quiz);
+
+    logger.classroom(`Started quiz in "${this.classroom.name}": ${question}`);
+    this.classroom.emit("quiz-started", quiz);
+    return quiz;
+  }
+
+  /**
+   * Retrieves a quiz by its ID
+   *
+   * @param quizId - The ID of the quiz
+   * @returns The quiz if found, undefined otherwise
+   */
+  get(quizId: string): Quiz | undefined {
+    return this.list.find((quiz) => quiz.id === quizId);
+  }
+
+  /**
+   * Finds the quiz that still accepts answers
+   *
+   * @param now - The time to check against (default: now)
+   * @returns The open quiz, or undefined if none is open
+   */
+  getOpen(now = new Date()): Quiz | undefined {
+    return this.list.find(
+      (quiz) => !quiz.closedAt && (!quiz.closesAt || quiz.closesAt > now),
+    );
+  }
+
+  /**
+   * Records the message that holds the answer buttons of a quiz
+   * Emits 'quiz-updated' event for real-time updates
+   *
+   * @param quizId - The ID of the quiz
+   * @param messageId - The Discord message ID of the quiz message
+   * @returns true if successful, false if the quiz was not found
+   */
+  setMessage(quizId: string, messageId: string): boolean {
+    const quiz = this.get(quizId);
+    if (!quiz) {
+      logger.classroom(`Failed to set message for unknown quiz ${quizId}`);
+      return false;
+    }
+
+    quiz.messageId = messageId;
+    this.classroom.emit("quiz-updated", quiz);
+    return true;
+  }
+
+  /**
+   * Records a student's answer to a quiz, only the first answer counts
+   * Emits 'quiz-answered' event for real-time updates
+   *
+   * @param quizId - The ID of the quiz
+   * @param studentId - The Discord user ID of the student
+   * @param choice - Index of the chosen answer (0-based)
+   * @param at - The time of the answer (default: now)
+   * @returns The answer (the earlier one if the student already answered),
+   * or null if the quiz is closed, the choice is invalid or the student or quiz was not found
+   */
+  answer(
+    quizId: string,
+    studentId: string,
+    choice: number,
+    at = new Date(),
+  ): QuizAnswer | null {
+    const quiz = this.get(quizId);
+    if (
+      !quiz ||
+      !this.classroom.students.has(studentId) ||
+      quiz.closedAt ||
+      (quiz.closesAt && at >= quiz.closesAt) ||
+      choice < 0 ||
+      choice >= quiz.choices.length
+    ) {
+      logger.classroom(
+        `Failed to record answer of student ${studentId} - quiz closed or not found`,
+      );
+      return null;
+    }
+
+    const existing = quiz.answers.find(
+      (answer) => answer.studentId === studentId,
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const answer = { studentId, choice, at };
+    quiz.answers.push(answer);
+    logger.classroom(
+      `Student ${studentId} answered quiz ${quizId} with choice ${choice + 1}`,
+    );
+    this.classroom.emit("quiz-answered", answer, quiz);
+    return answer;
+  }
+
+  /**
+   * Closes a quiz so that its results can be revealed
+   * Emits 'quiz-closed' event for real-time updates
+   *
+   * @param quizId - The ID of the quiz
+   * @returns true if successful, false if the quiz was not found or already closed
+   */
+  close(quizId: string): boolean {
+    const quiz = this.get(quizId);
+    if (!quiz || quiz.closedAt) {
+      return false;
+    }
+
+    quiz.closedAt = new Date();
+    logger.classroom(
+      `Closed quiz ${quizId} in "${this.classroom.name}" with ${quiz.answers.length} answer(s)`,
+    );
+    this.classroom.emit("quiz-closed", quiz);
+    return true;
+  }
+
+  /**
+   * Counts how many answers each choice of a quiz received
+   *
+   * @param quizId - The ID of the quiz
+   * @returns The number of answers per choice, in choice order (empty if the quiz was not found)
+   */
+  getDistribution(quizId: string): number[] {
+    const quiz = this.get(quizId);
+    if (!quiz) {
+      return [];
+    }
+
+    return quiz.choices.map(
+      (_, choice) =>
+        quiz.answers.filter((answer) => answer.choice === choice).length,
+    );
+  }
+
+  /**
+   * Summarizes a student's answers to the quizzes of the classroom
+   *
+   * @param studentId - The Discord user ID of the student
+   * @returns The student's quiz score
+   */
+  getScore(studentId: string): QuizScore {
+    const answers = this.list
+      .map((quiz) => ({
+        quiz,
+        answer: quiz.answers.find((answer) => answer.studentId === studentId),
+      }))
+      .filter(({ answer }) => answer !== undefined);
+
+    return {
+      correct: answers.filter(
+        ({ quiz, answer }) => answer!.choice === quiz.correctChoice,
+      ).length,
+      answered: answers.length,
+      total: this.list.length,
+    };
+  }
+
+  /**
+   * Serializes the quizzes into plain JSON-compatible objects
+   *
+   * @returns The serialized quizzes
+   */
+  toJSON(): QuizData[] {
+    return this.list.map((quiz) => ({
+      ...quiz,
+      startTime: quiz.startTime.toISOString(),
+      closesAt: quiz.closesAt?.toISOString(),
+      closedAt: quiz.closedAt?.toISOString(),
+      answers: quiz.answers.map((answer) => ({
+        ...answer,
+        at: answer.at.toISOString(),
+      })),
+    }));
+  }
+
+  /**
+   * Restores the quizzes from their serialized form, without emitting events
+   *
+   * @param data - The serialized quizzes
+   */
+  load(data: QuizData[]): void {
+    this.list = data.map((quiz) => ({
+      ...quiz,
+      startTime: new Date(quiz.startTime),
+      closesAt: quiz.closesAt ? new Date(quiz.closesAt) : undefined,
+      closedAt: quiz.closedAt ? new Date(quiz.closedAt) : undefined,
+      answers: quiz.answers.map((answer) => ({
+        ...answer,
+        at: new Date(answer.at),
+      })),
+    }));
+  }
+}
@@ -0,0 +1,202 @@
+import { Collection } from "discord.js";
+import { EventEmitter } from "eventemitter3";
+import logger from "../utils/logger.js";
+import { findClassroom, type Classroom } from "./classroom.js";
+
+/**
+ * Serialized course, as written to persistent storage
+ */
+export interface CourseData {
+  id: string;
+  name: string;
+  ownerId: string;
+  guildId?: string;
+  classroomIds: string[];
+  createdAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * Event types emitted by the Course class
+ */
+export const courseEventTypes = [
+  "classroom-added",
+  "classroom-removed",
+] as const;
+
+/**
+ * A course running over several sessions, each held in its own classroom
+ * Lets attendance and lab completion be reported across all sessions
+ *
+ * Extends EventEmitter to provide real-time updates via events
+ */
+export class Course extends EventEmitter {
+  public id: string; // Unique identifier for the course
+  public name: string; // Display name of the course, unique within its server
+  public ownerId: string; // Discord user ID of the creator
+  public guildId?: string; // Discord server the course belongs to
+  public classroomIds: string[] = []; // Thread IDs of the classrooms of the course, in session order
+  public createdAt: Date;
+
+  /**
+   * Creates a new course instance
+   *
+   * @param id - Unique identifier for the course
+   * @param name - The display name of the course
+   * @param ownerId - Discord user ID of the creator
+   * @param guildId - Discord server the course belongs to
+   */
+  constructor(id: string, name: string, ownerId: string, guildId?: string) {
+    super();
+    this.id = id;
+    this.name = name;
+    this.ownerId = ownerId;
+    this.guildId = guildId;
+    this.createdAt = new Date();
+    logger.classroom(`Created course "${name}", ID: ${id}`);
+  }
+
+  /**
+   * Adds a classroom as the next session of the course
+   * Emits 'classroom-added' event for real-time updates
+   *
+   * @param classroomId - The thread ID of the classroom
+   * @returns true if successful, false if the classroom is already part of the course
+   */
+  addClassroom(classroomId: string): boolean {
+    if (this.classroomIds.includes(classroomId)) {
+      logger.classroom(
+        `Failed to add classroom ${classroomId} to course "${this.name}" - already added`,
+      );
+      return false;
+    }
+
+    this.classroomIds.push(classroomId);
+    logger.classroom(`Added classroom ${classroomId} to course "${this.name}"`);
+    this.emit("classroom-added", classroomId);
+    return true;
+  }
+
+  /**
+   * Removes a classroom from the sessions of the course
+   * Emits 'classroom-removed' event for real-time updates
+   *
+   * @param classroomId - The thread ID of the classroom
+   * @returns true if successful, false if the classroom is not part of the course
+   */
+  removeClassroom(classroomId: string): boolean {
+    if (!this.classroomIds.includes(classroomId)) {
+      logger.classroom(
+        `Failed to remove classroom ${classroomId} from course "${this.name}" - not added`,
+      );
+      return false;
+    }
+
+    this.classroomIds = this.classroomIds.filter((id) => id !== classroomId);
+    logger.classroom(
+      `Removed classroom ${classroomId} from course "${this.name}"`,
+    );
+    this.emit("classroom-removed", classroomId);
+    return true;
+  }
+
+  /**
+   * Gets the classrooms of the course, whether active or archived
+   * Classrooms that no longer exist are left out
+   *
+   * @returns The classrooms in session order
+   */
+  getClassrooms(): Classroom[] {
+    return this.classroomIds
+      .map((id) => findClassroom(id))
+      .filter((classroom) => classroom !== undefined);
+  }
+
+  /**
+   * Serializes the course into a plain JSON-compatible object
+   *
+   * @returns The serialized course data
+   */
+  toJSON(): CourseData {
+    return {
+      id: this.id,
+      name: this.name,
+      ownerId: this.ownerId,
+      guildId: this.guildId,
+      classroomIds: this.classroomIds,
+      createdAt: this.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Restores a course from its serialized form
+   * Does not emit any events, as the state is being rehydrated rather than changed
+   *
+   * @param data - The serialized course data
+   * @returns The restored course instance
+   */
+  static fromJSON(data: CourseData): Course {
+    const course = new Course(data.id, data.name, data.ownerId, data.guildId);
+    course.classroomIds = data.classroomIds;
+    course.createdAt = new Date(data.createdAt);
+    return course;
+  }
+}
+
+/**
+ * Global store of all courses
+ * Key: Course ID, Value: Course instance
+ */
+export const courses = new Collection<string, Course>();
+
+/**
+ * Notifies interested modules (e.g. persistence) whenever a course
+ * is added to the global store
+ */
+const registry = new EventEmitter<{ registered: [course: Course] }>();
+
+/**
+ * Adds a course to the global store and notifies registry listeners
+ *
+ * @param course - The course to register
+ */
+export function registerCourse(course: Course): void {
+  courses.set(course.id, course);
+  registry.emit("registered", course);
+}
+
+/**
+ * Subscribes to courses being added to the global store
+ *
+ * @param listener - Called with every course registered from now on
+ */
+export function onCourseRegistered(listener: (course: Course) => void): void {
+  registry.on("registered", listener);
+}
+
+/**
+ * Finds a course of a server by its name, ignoring case
+ *
+ * @param guildId - The guild ID
+ * @param name - The name of the course
+ * @returns The course if found, undefined otherwise
+ */
+export function findCourseByName(
+  guildId: string,
+  name: string,
+): Course | undefined {
+  return courses.find(
+    (course) =>
+      course.guildId === guildId &&
+      course.name.toLowerCase() === name.trim().toLowerCase(),
+  );
+}
+
+/**
+ * Finds the course a classroom is a session of
+ *
+ * @param classroomId - The thread ID of the classroom
+ * @returns The course if the classroom belongs to one, undefined otherwise
+ */
+export function findCourseOfClassroom(classroomId: string): Course | undefined {
+  return courses.find((course) => course.classroomIds.includes(classroomId));
+}
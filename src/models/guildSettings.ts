@@ -0,0 +1,128 @@
+import { Collection } from "discord.js";
+import { EventEmitter } from "eventemitter3";
+import logger from "../utils/logger.js";
+
+/**
+ * Points awarded for each kind of classroom activity
+ * Setting a rule to 0 disables it
+ */
+export interface ScoringRules {
+  join: number; // Joining a classroom
+  labCompleted: number; // Completing a lab
+  earlyCompletion: number; // Bonus for being among the first to complete a lab
+  earlyCompletionCount: number; // Number of students who get the early completion bonus per lab
+  helping: number; // Being thanked by a classmate for help
+  attendanceOnTime: number; // Checking in to attendance on time
+  attendanceLate: number; // Checking in to attendance late
+}
+
+/**
+ * Scoring rules of servers that have not configured their own
+ */
+export const DEFAULT_SCORING_RULES: Readonly<ScoringRules> = {
+  join: 5,
+  labCompleted: 10,
+  earlyCompletion: 5,
+  earlyCompletionCount: 3,
+  helping: 3,
+  attendanceOnTime: 3,
+  attendanceLate: 1,
+};
+
+/**
+ * Serialized settings of a server, as written to persistent storage
+ */
+export interface GuildSettingsData {
+  guildId: string;
+  scoring?: Partial<ScoringRules>; // Only the rules that differ from the defaults
+}
+
+/**
+ * Scoring rules configured per server, keyed by guild ID
+ * Only holds the rules that were changed, the rest fall back to the defaults
+ */
+const scoringOverrides = new Collection<string, Partial<ScoringRules>>();
+
+/**
+ * Notifies interested modules (e.g. persistence) whenever the settings of a server change
+ */
+const events = new EventEmitter<{ changed: [guildId: string] }>();
+
+/**
+ * Gets the scoring rules of a server
+ *
+ * @param guildId - The guild ID, unset for classrooms created before servers were tracked
+ * @returns The server's rules, with defaults for any rule it has not configured
+ */
+export function getScoringRules(guildId?: string): ScoringRules {
+  return {
+    ...DEFAULT_SCORING_RULES,
+    ...(guildId ? scoringOverrides.get(guildId) : undefined),
+  };
+}
+
+/**
+ * Changes some of the scoring rules of a server
+ *
+ * @param guildId - The guild ID
+ * @param rules - The rules to change, others keep their current value
+ * @returns The server's rules after the change
+ */
+export function setScoringRules(
+  guildId: string,
+  rules: Partial<ScoringRules>,
+): ScoringRules {
+  scoringOverrides.set(guildId, {
+    ...scoringOverrides.get(guildId),
+    ...rules,
+  });
+  logger.system(`Updated scoring rules of guild ${guildId}`);
+  events.emit("changed", guildId);
+  return getScoringRules(guildId);
+}
+
+/**
+ * Restores the default scoring rules of a server
+ *
+ * @param guildId - The guild ID
+ */
+export function resetScoringRules(guildId: string): void {
+  if (scoringOverrides.delete(guildId)) {
+    logger.system(`Reset scoring rules of guild ${guildId}`);
+    events.emit("changed", guildId);
+  }
+}
+
+/**
+ * Subscribes to changes of any server's settings
+ *
+ * @param listener - Called with the guild ID of every server whose settings changed
+ */
+export function onGuildSettingsChanged(
+  listener: (guildId: string) => void,
+): void {
+  events.on("changed", listener);
+}
+
+/**
+ * Serializes the settings of every configured server
+ *
+ * @returns The serialized settings
+ */
+export function serializeGuildSettings(): GuildSettingsData[] {
+  return scoringOverrides.map((scoring, guildId) => ({ guildId, scoring }));
+}
+
+/**
+ * Restores the settings of every server from their serialized form
+ * Does not notify listeners, as the state is being rehydrated rather than changed
+ *
+ * @param data - The serialized settings
+ */
+export function loadGuildSettings(data: GuildSettingsData[]): void {
+  for (const settings of data) {
+    if (settings.scoring) {
+      scoringOverrides.set(settings.guildId, settings.scoring);
+    }
+  }
+}
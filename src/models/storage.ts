@@ -0,0 +1,169 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import logger from "../utils/logger.js";
+import {
+  archivedClassrooms,
+  Classroom,
+  classroomEventTypes,
+  classrooms,
+  onClassroomRegistered,
+  registerClassroom,
+  type ClassroomData,
+} from "./classroom.js";
+import {
+  Course,
+  courseEventTypes,
+  courses,
+  onCourseRegistered,
+  registerCourse,
+  type CourseData,
+} from "./course.js";
+import {
+  loadGuildSettings,
+  onGuildSettingsChanged,
+  serializeGuildSettings,
+  type GuildSettingsData,
+} from "./guildSettings.js";
+
+// Delay before writing changes to disk, so bursts of events become one write
+const SAVE_DELAY = 1000;
+
+/**
+ * Shape of the JSON file holding all persisted state
+ */
+interface StoreData {
+  version: 1;
+  classrooms: ClassroomData[];
+  guilds?: GuildSettingsData[]; // Missing in stores written before server settings existed
+  courses?: CourseData[]; // Missing in stores written before courses existed
+}
+
+let saveTimer: NodeJS.Timeout | null = null;
+let saving: Promise<void> = Promise.resolve();
+
+/**
+ * Resolves the path of the store file
+ * Read lazily so that DATA_DIR from the .env file is respected
+ *
+ * @returns The absolute path of the store file
+ */
+function getStorePath(): string {
+  return path.resolve(process.env.DATA_DIR || "data", "classrooms.json");
+}
+
+/**
+ * Loads all persisted classrooms, courses and server settings into the global store and starts
+ * tracking every registered classroom, course and the settings so that changes are written back to disk
+ *
+ * @returns The number of classrooms restored
+ */
+export async function initStorage(): Promise<number> {
+  onClassroomRegistered(trackClassroom);
+  onCourseRegistered(trackCourse);
+  onGuildSettingsChanged(scheduleSave);
+
+  const file = getStorePath();
+  let data: StoreData;
+  try {
+    data = JSON.parse(await readFile(file, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      logger.storage(`No store found at ${file}, starting fresh`);
+      return 0;
+    }
+    throw error;
+  }
+
+  loadGuildSettings(data.guilds ?? []);
+  for (const classroomData of data.classrooms) {
+    registerClassroom(Classroom.fromJSON(classroomData));
+  }
+  for (const courseData of data.courses ?? []) {
+    registerCourse(Course.fromJSON(courseData));
+  }
+
+  logger.storage(
+    `Restored ${data.classrooms.length} classroom(s) from ${file}`,
+  );
+  return data.classrooms.length;
+}
+
+/**
+ * Listens to every state change of a classroom and schedules a save
+ *
+ * @param classroom - The classroom to track
+ */
+function trackClassroom(classroom: Classroom): void {
+  for (const event of classroomEventTypes) {
+    classroom.on(event, scheduleSave);
+  }
+  scheduleSave();
+}
+
+/**
+ * Listens to every state change of a course and schedules a save
+ *
+ * @param course - The course to track
+ */
+function trackCourse(course: Course): void {
+  for (const event of courseEventTypes) {
+    course.on(event, scheduleSave);
+  }
+  scheduleSave();
+}
+
+/**
+ * Schedules a debounced write of all classrooms to disk
+ */
+export function scheduleSave(): void {
+  if (saveTimer) {
+    return;
+  }
+
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    saving = saving.then(save).catch((error) => {
+      logger.storage(`Failed to save store: %O`, error);
+      console.error("Failed to save store:", error);
+    });
+  }, SAVE_DELAY);
+}
+
+/**
+ * Writes any pending changes to disk immediately
+ * Failures are logged like those of scheduled saves, so later saves still run
+ * Should be called before the process exits
+ */
+export async function flushStorage(): Promise<void> {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+    saving = saving.then(save).catch((error) => {
+      logger.storage(`Failed to save store: %O`, error);
+      console.error("Failed to save store:", error);
+    });
+  }
+  await saving;
+}
+
+/**
+ * Serializes all classrooms, courses and server settings and atomically replaces the store file
+ */
+async function save(): Promise<void> {
+  const file = getStorePath();
+  const data: StoreData = {
+    version: 1,
+    classrooms: [...classrooms.values(), ...archivedClassrooms.values()].map(
+      (classroom) => classroom.toJSON(),
+    ),
+    guilds: serializeGuildSettings(),
+    courses: courses.map((course) => course.toJSON()),
+  };
+
+  // Write to a temporary file first so a crash never leaves a partial store
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(`${file}.tmp`, JSON.stringify(data, null, 2));
+  await rename(`${file}.tmp`, file);
+
+  logger.storage(`Saved ${data.classrooms.length} classroom(s) to ${file}`);
+}
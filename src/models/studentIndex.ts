@@ -0,0 +1,58 @@
+import { Collection } from "discord.js";
+import {
+  Classroom,
+  findClassroom,
+  onClassroomRegistered,
+  type Student,
+} from "./classroom.js";
+
+/**
+ * Thread IDs of the classrooms each user is a student of, keyed by Discord user ID
+ */
+const studentClassrooms = new Collection<string, Set<string>>();
+
+/**
+ * Starts indexing the students of every registered classroom
+ * Must be called before classrooms are restored from storage so they are indexed too
+ */
+export function initStudentIndex(): void {
+  onClassroomRegistered(indexClassroom);
+}
+
+/**
+ * Finds every classroom a user is a student of, whether active or archived
+ *
+ * @param userId - The Discord user ID
+ * @returns The classrooms in the order the user joined them
+ */
+export function getStudentClassrooms(userId: string): Classroom[] {
+  return Array.from(studentClassrooms.get(userId) ?? [])
+    .map((id) => findClassroom(id))
+    .filter((classroom) => classroom !== undefined);
+}
+
+/**
+ * Indexes the current students of a classroom and every student added later
+ *
+ * @param classroom - The classroom to index
+ */
+function indexClassroom(classroom: Classroom): void {
+  for (const student of classroom.students.values()) {
+    addToIndex(student.id, classroom.id);
+  }
+  classroom.on("student-added", (student: Student) =>
+    addToIndex(student.id, classroom.id),
+  );
+}
+
+/**
+ * Records that a user is a student of a classroom
+ *
+ * @param userId - The Discord user ID
+ * @param classroomId - The thread ID of the classroom
+ */
+function addToIndex(userId: string, classroomId: string): void {
+  const ids = studentClassrooms.get(userId) ?? new Set();
+  ids.add(classroomId);
+  studentClassrooms.set(userId, ids);
+}
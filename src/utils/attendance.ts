@@ -0,0 +1,125 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ComponentType,
+  EmbedBuilder,
+  ThreadChannel,
+} from "discord.js";
+import type { AttendanceSession, Classroom } from "../models/classroom.js";
+import { formatList } from "./format.js";
+import logger from "./logger.js";
+
+/**
+ * Creates an embed with the attendance of a session
+ * Lists students who checked in on time or late, and those who are absent,
+ * including roster rows of students who never joined the classroom
+ *
+ * @param classroom - The classroom the session belongs to
+ * @param session - The attendance session
+ * @returns An embed with the attendance of the session
+ */
+export function createAttendanceEmbed(
+  classroom: Classroom,
+  session: AttendanceSession,
+): EmbedBuilder {
+  const summary = classroom.attendance.getSummary(session.id)!;
+  const now = new Date();
+  const toTimestamp = (date: Date) =>
+    `<t:${Math.floor(date.getTime() / 1000)}:t>`;
+
+  let status: string;
+  if (now < session.lateAfter) {
+    status = `🟢 Open, on time until ${toTimestamp(session.lateAfter)}`;
+  } else if (now < session.closesAt) {
+    status = `🟡 Accepting late check-ins until ${toTimestamp(session.closesAt)}`;
+  } else {
+    status = `⚫ Closed at ${toTimestamp(session.closesAt)}`;
+  }
+
+  const absentCount = summary.absent.length + summary.absentRoster.length;
+  const embed = new EmbedBuilder()
+    .setTitle(`Attendance: ${classroom.name}`)
+    .setDescription(
+      `${status}\n\n` +
+        `**On time:** ${summary.onTime.length}\n` +
+        `**Late:** ${summary.late.length}\n` +
+        `**Absent:** ${absentCount}`,
+    )
+    .setColor(now < session.closesAt ? "#00FF00" : "#808080")
+    .setTimestamp();
+
+  const describe = (student: { name: string; realName?: string }) =>
+    `- ${student.realName ? `${student.realName} (${student.name})` : student.name}`;
+
+  if (summary.late.length > 0) {
+    embed.addFields({
+      name: "Late",
+      value: formatList(summary.late.map(describe), 1024),
+    });
+  }
+
+  if (absentCount > 0) {
+    embed.addFields({
+      name: "Absent",
+      value: formatList(
+        [
+          ...summary.absent.map(describe),
+          ...summary.absentRoster.map(
+            (entry) =>
+              `- ${entry.realName} (${entry.studentNumber}, not in classroom)`,
+          ),
+        ],
+        1024,
+      ),
+    });
+  }
+
+  return embed;
+}
+
+/**
+ * Marks the check-in message of an attendance session as closed
+ * Disables its button so students can no longer check in
+ *
+ * @param thread - The classroom thread holding the check-in message
+ * @param session - The attendance session whose message should be closed
+ * @returns true if the message was updated, false otherwise
+ */
+export async function closeAttendanceMessage(
+  thread: ThreadChannel,
+  session: AttendanceSession,
+): Promise<boolean> {
+  if (!session.messageId) {
+    logger.system(`Attendance session ${session.id} has no message to close`);
+    return false;
+  }
+
+  try {
+    const message = await thread.messages.fetch(session.messageId);
+
+    // Rebuild every row with the same buttons, but disabled
+    const components = message.components.map((row) =>
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        row.components
+          .filter((component) => component.type === ComponentType.Button)
+          .map((component) => ButtonBuilder.from(component).setDisabled(true)),
+      ),
+    );
+
+    const embeds = message.embeds.map((embed) =>
+      EmbedBuilder.from(embed)
+        .setDescription("Check-in for this session has closed.")
+        .setColor("#808080"),
+    );
+
+    await message.edit({ embeds, components });
+    logger.system(`Closed message of attendance session ${session.id}`);
+    return true;
+  } catch (error) {
+    logger.system(
+      `Failed to close message of attendance session ${session.id}: %O`,
+      error,
+    );
+    return false;
+  }
+}
@@ -1,10 +1,12 @@
 import {
+  ActionRowBuilder,
   CommandInteraction,
   EmbedBuilder,
   InteractionResponse,
   Message,
+  MessageActionRowComponentBuilder,
 } from "discord.js";
-import { Classroom } from "../models/classroom.js";
+import { Classroom, classroomEventTypes } from "../models/classroom.js";
 import logger from "./logger.js";
 
 // Configuration constants
@@ -18,6 +20,7 @@ const MIN_UPDATE_INTERVAL = 10 * 1000; // 10 seconds minimum between immediate u
 interface AutoUpdateOptions {
   interaction: CommandInteraction; // The Discord interaction to respond to
   generateEmbed: () => EmbedBuilder | Promise<EmbedBuilder>; // Function to generate updated content
+  generateComponents?: () => ActionRowBuilder<MessageActionRowComponentBuilder>[]; // Optional function to generate interactive components
   content?: string; // Optional text content for the message
   interval?: number; // Update interval in milliseconds
   timeLimit?: number; // Total time to keep updating in milliseconds
@@ -34,6 +37,7 @@ interface AutoUpdateOptions {
 export async function createAutoUpdateMessage({
   interaction,
   generateEmbed,
+  generateComponents = () => [],
   content = "",
   interval = DEFAULT_UPDATE_INTERVAL,
   timeLimit = DEFAULT_UPDATE_LIMIT,
@@ -49,6 +53,7 @@ export async function createAutoUpdateMessage({
     response = await interaction.reply({
       content,
       embeds: [initialEmbed],
+      components: generateComponents(),
       flags: "Ephemeral",
     });
   } else {
@@ -56,6 +61,7 @@ export async function createAutoUpdateMessage({
     response = await interaction.editReply({
       content,
       embeds: [initialEmbed],
+      components: generateComponents(),
     });
   }
 
@@ -65,34 +71,58 @@ export async function createAutoUpdateMessage({
   let updateCount = 0;
   let lastUpdateTime = Date.now();
   let pendingUpdate = false;
+  let stopped = false;
+
+  /**
+   * Shows the final state of the message and releases all resources
+   *
+   * @param reason - Short reason for the footer and log, e.g. "time limit reached"
+   * @param notice - Explanation shown below the content
+   */
+  const stopUpdates = async (reason: string, notice: string) => {
+    if (stopped) {
+      return;
+    }
+    stopped = true;
+
+    // Clean up all resources
+    clearInterval(intervalId);
+    if (classroom) {
+      removeEventListeners();
+    }
+
+    // Generate final update with the stop reason
+    const finalEmbed = await generateEmbed();
+    finalEmbed.setFooter({
+      text: `Auto-updates ended (${reason}) • Total updates: ${updateCount + 1}`,
+    });
+
+    await interaction.editReply({
+      content: `${content}\n**Auto-updates have stopped**: ${notice}`,
+      embeds: [finalEmbed],
+      components: [], // Remove components that would act on stale data
+    });
+
+    logger.system(
+      `Auto-update stopped for interaction ${interaction.id} (${reason})`,
+    );
+  };
 
   // Create a function to handle updates
   const performUpdate = async (reason: string = "scheduled") => {
+    if (stopped) {
+      return;
+    }
+
     try {
       const now = Date.now();
       updateCount++;
 
       // Check if we've reached the time limit
       if (now >= endTime) {
-        // Generate final update with time limit message
-        const finalEmbed = await generateEmbed();
-        finalEmbed.setFooter({
-          text: `Auto-updates ended (time limit reached) • Total updates: ${updateCount + 1}`,
-        });
-
-        await interaction.editReply({
-          content: `${content}\n**Auto-updates have stopped**: Time limit reached (${timeLimit / 60000} minutes)`,
-          embeds: [finalEmbed],
-        });
-
-        // Clean up all resources
-        clearInterval(intervalId);
-        if (classroom) {
-          removeEventListeners();
-        }
-
-        logger.system(
-          `Auto-update stopped for interaction ${interaction.id} (time limit reached)`,
+        await stopUpdates(
+          "time limit reached",
+          `Time limit reached (${timeLimit / 60000} minutes)`,
         );
         return;
       }
@@ -110,6 +140,7 @@ export async function createAutoUpdateMessage({
       await interaction.editReply({
         content,
         embeds: [updatedEmbed],
+        components: generateComponents(),
       });
 
       // Reset update tracking state
@@ -127,6 +158,7 @@ export async function createAutoUpdateMessage({
       console.error("Auto-update error:", error);
 
       // Stop updates on error to prevent repeated failures
+      stopped = true;
       clearInterval(intervalId);
       if (classroom) {
         removeEventListeners();
@@ -160,24 +192,40 @@ export async function createAutoUpdateMessage({
     }
   };
 
-  // Set up event listeners for the classroom events if provided
-  const onStudentAdded = () => queueUpdate("student-joined");
-  const onStudentGroupChanged = () => queueUpdate("group-changed");
-  const onLabCompleted = () => queueUpdate("lab-completed");
+  // Set up one event listener per classroom event, using the event name as the update reason
+  // Archiving ends the updates, as the classroom no longer changes
+  const listeners = classroomEventTypes.map(
+    (event) =>
+      [
+        event,
+        event === "classroom-archived"
+          ? () =>
+              stopUpdates(
+                "classroom archived",
+                "The classroom has been archived",
+              ).catch((error) => {
+                logger.system(
+                  `Error stopping auto-update for interaction ${interaction.id}: %O`,
+                  error,
+                );
+              })
+          : () => queueUpdate(event),
+      ] as const,
+  );
 
   // Register event handlers
   if (classroom) {
-    classroom.on("student-added", onStudentAdded);
-    classroom.on("student-group-changed", onStudentGroupChanged);
-    classroom.on("lab-completed", onLabCompleted);
+    for (const [event, listener] of listeners) {
+      classroom.on(event, listener);
+    }
   }
 
   // Helper function to clean up event listeners
   const removeEventListeners = () => {
     if (classroom) {
-      classroom.removeListener("student-added", onStudentAdded);
-      classroom.removeListener("student-group-changed", onStudentGroupChanged);
-      classroom.removeListener("lab-completed", onLabCompleted);
+      for (const [event, listener] of listeners) {
+        classroom.removeListener(event, listener);
+      }
     }
   };
 
@@ -0,0 +1,120 @@
+import { SnowflakeUtil, type AnyThreadChannel } from "discord.js";
+import {
+  archiveClassroom,
+  archivedClassrooms,
+  classrooms,
+  restoreClassroom,
+} from "../models/classroom.js";
+import { closeGroupSpaces } from "./groupSpaces.js";
+import { closeLabMessage } from "./labMessage.js";
+import logger from "./logger.js";
+
+// Slack for Discord's idle check, which archives threads around their inactivity period rather than exactly at its end
+const AUTO_ARCHIVE_TOLERANCE = 60 * 1000; // 1 minute
+
+/**
+ * Checks whether Discord archived a thread on its own after its inactivity period
+ * Discord does not say who archived a thread, so an archive that comes at least the inactivity period
+ * after the last message or the last archive change is taken to be automatic
+ *
+ * @param oldThread - The thread before the update
+ * @param newThread - The thread after the update
+ * @returns true if the thread was archived for being idle
+ */
+function isIdleArchive(
+  oldThread: AnyThreadChannel,
+  newThread: AnyThreadChannel,
+): boolean {
+  if (
+    !newThread.archived ||
+    newThread.locked ||
+    !newThread.archiveTimestamp ||
+    !newThread.autoArchiveDuration
+  ) {
+    return false;
+  }
+
+  const lastActivity = Math.max(
+    newThread.lastMessageId
+      ? SnowflakeUtil.timestampFrom(newThread.lastMessageId)
+      : 0,
+    oldThread.archiveTimestamp ?? 0,
+    newThread.createdTimestamp ?? 0,
+  );
+  return (
+    newThread.archiveTimestamp - lastActivity >=
+    newThread.autoArchiveDuration * 60 * 1000 - AUTO_ARCHIVE_TOLERANCE
+  );
+}
+
+/**
+ * Archives a classroom when its thread is locked or archived by a moderator, and restores it when the thread is reopened
+ * Discord also archives threads automatically after a period of inactivity, which reopens the thread instead,
+ * so an idle classroom keeps its lab, live messages and group spaces
+ *
+ * @param oldThread - The thread before the update
+ * @param newThread - The thread after the update
+ */
+export async function handleThreadUpdate(
+  oldThread: AnyThreadChannel,
+  newThread: AnyThreadChannel,
+): Promise<void> {
+  const wasClosed = oldThread.archived || oldThread.locked;
+  const isClosed = newThread.archived || newThread.locked;
+
+  if (isClosed && classrooms.has(newThread.id)) {
+    const { name, activeLabSession: lab } = classrooms.get(newThread.id)!;
+
+    // Locking is always deliberate, but archiving also happens when the thread is idle
+    if (isIdleArchive(oldThread, newThread)) {
+      await newThread.setArchived(false, `${name} is still in use`);
+      logger.system(
+        `Reopened the thread of classroom "${name}" as Discord archived it for being idle`,
+      );
+      return;
+    }
+
+    const classroom = archiveClassroom(newThread.id)!;
+    logger.system(
+      `Archived classroom "${classroom.name}" as its thread was ${newThread.archived ? "archived" : "locked"}`,
+    );
+
+    // Messages in archived threads cannot be edited, so only locked threads get their lab message closed
+    if (lab && !newThread.archived) {
+      await closeLabMessage(newThread, lab);
+    }
+    await closeGroupSpaces(
+      newThread.client,
+      classroom,
+      `${classroom.name} was archived`,
+    );
+  } else if (wasClosed && !isClosed && archivedClassrooms.has(newThread.id)) {
+    const classroom = restoreClassroom(newThread.id)!;
+    logger.system(
+      `Restored classroom "${classroom.name}" as its thread was reopened`,
+    );
+  }
+}
+
+/**
+ * Archives a classroom when its thread is deleted and closes its group spaces
+ *
+ * @param thread - The deleted thread
+ */
+export async function handleThreadDelete(
+  thread: AnyThreadChannel,
+): Promise<void> {
+  const classroom = archiveClassroom(thread.id);
+  if (!classroom) {
+    return;
+  }
+
+  logger.system(
+    `Archived classroom "${classroom.name}" as its thread was deleted`,
+  );
+  await closeGroupSpaces(
+    thread.client,
+    classroom,
+    `${classroom.name} was archived`,
+  );
+}
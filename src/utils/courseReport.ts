@@ -0,0 +1,166 @@
+import type { Classroom } from "../models/classroom.js";
+import type { Course } from "../models/course.js";
+import { formatCsv, type CsvValue } from "./csv.js";
+
+/**
+ * Attendance of a student at one session of a course
+ * - on_time / late: checked in to an attendance session of the classroom
+ * - present: joined a classroom in which no attendance was taken
+ * - absent: neither checked in nor, without attendance, joined
+ */
+export type SessionAttendance = "on_time" | "late" | "present" | "absent";
+
+/**
+ * A session of a course as listed in a report
+ */
+export interface CourseReportSession {
+  classroomId: string;
+  name: string;
+  labs: number; // Number of labs run in the session
+  tookAttendance: boolean;
+}
+
+/**
+ * A student's results across every session of a course
+ */
+export interface CourseReportStudent {
+  id: string; // Discord user ID
+  name: string;
+  studentNumber: string | null; // University student ID from any session's roster
+  realName: string | null; // Real name from any session's roster
+  attendance: SessionAttendance[]; // One entry per session, in session order
+  sessionsAttended: number;
+  labsCompleted: number;
+  points: number;
+}
+
+/**
+ * Attendance and lab completion of every student across the sessions of a course
+ */
+export interface CourseReport {
+  course: { id: string; name: string };
+  sessions: CourseReportSession[];
+  totalLabs: number;
+  students: CourseReportStudent[];
+}
+
+/**
+ * Collects the attendance and lab completions of a course, identifying students by Discord ID
+ *
+ * @param course - The course to report on
+ * @returns The report, with sessions in course order and students by name
+ */
+export function createCourseReport(course: Course): CourseReport {
+  const classrooms = course.getClassrooms();
+  const students = new Map<string, CourseReportStudent>();
+
+  classrooms.forEach((classroom, session) => {
+    for (const student of classroom.students.values()) {
+      const entry = students.get(student.id) ?? {
+        id: student.id,
+        name: student.name,
+        studentNumber: null,
+        realName: null,
+        attendance: classrooms.map(() => "absent" as SessionAttendance),
+        sessionsAttended: 0,
+        labsCompleted: 0,
+        points: 0,
+      };
+
+      entry.name = student.name;
+      entry.studentNumber ??= student.studentNumber ?? null;
+      entry.realName ??= student.realName ?? null;
+      entry.attendance[session] = getSessionAttendance(classroom, student.id);
+      entry.labsCompleted += student.completedLabs.size;
+      entry.points += classroom.participation.getPoints(student.id);
+      students.set(student.id, entry);
+    }
+  });
+
+  for (const entry of students.values()) {
+    entry.sessionsAttended = entry.attendance.filter(
+      (attendance) => attendance !== "absent",
+    ).length;
+  }
+
+  return {
+    course: { id: course.id, name: course.name },
+    sessions: classrooms.map((classroom) => ({
+      classroomId: classroom.id,
+      name: classroom.name,
+      labs: classroom.labs.length,
+      tookAttendance: classroom.attendance.list.length > 0,
+    })),
+    totalLabs: classrooms.reduce(
+      (total, classroom) => total + classroom.labs.length,
+      0,
+    ),
+    students: [...students.values()].sort((a, b) =>
+      a.name.localeCompare(b.name),
+    ),
+  };
+}
+
+/**
+ * Formats a course report as CSV with one row per student
+ * Each session gets its own attendance column, named after its classroom
+ *
+ * @param report - The report to format
+ * @returns The CSV text, with a header row and CRLF line endings
+ */
+export function formatCourseReportCsv(report: CourseReport): string {
+  const header: CsvValue[] = [
+    "student_id",
+    "student_name",
+    "student_number",
+    "real_name",
+    "sessions_attended",
+    "sessions_total",
+    "labs_completed",
+    "labs_total",
+    "points",
+    ...report.sessions.map(
+      (session, index) => `session_${index + 1}_${session.name}`,
+    ),
+  ];
+
+  const rows = report.students.map((student) => [
+    student.id,
+    student.name,
+    student.studentNumber,
+    student.realName,
+    student.sessionsAttended,
+    report.sessions.length,
+    student.labsCompleted,
+    report.totalLabs,
+    student.points,
+    ...student.attendance,
+  ]);
+
+  return formatCsv([header, ...rows]);
+}
+
+/**
+ * Works out whether a student attended a session
+ * A single on-time check-in to any attendance session of the classroom counts as on time
+ *
+ * @param classroom - The classroom of the session
+ * @param studentId - The Discord user ID of the student
+ * @returns The student's attendance of the session
+ */
+function getSessionAttendance(
+  classroom: Classroom,
+  studentId: string,
+): SessionAttendance {
+  if (classroom.attendance.list.length === 0) {
+    return classroom.students.has(studentId) ? "present" : "absent";
+  }
+
+  const checkIns = classroom.attendance.list.flatMap((session) =>
+    session.checkIns.filter((checkIn) => checkIn.studentId === studentId),
+  );
+  if (checkIns.length === 0) {
+    return "absent";
+  }
+  return checkIns.some((checkIn) => !checkIn.late) ? "on_time" : "late";
+}
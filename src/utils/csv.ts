@@ -0,0 +1,80 @@
+/**
+ * A CSV field value, null becomes an empty field
+ */
+export type CsvValue = string | number | boolean | null;
+
+/**
+ * Formats rows as CSV
+ *
+ * @param rows - The rows to format, including any header row
+ * @returns The CSV text with CRLF line endings
+ */
+export function formatCsv(rows: readonly (readonly CsvValue[])[]): string {
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n");
+}
+
+/**
+ * Parses CSV text into rows of fields
+ * Supports quoted fields with escaped quotes and line breaks, and skips blank lines
+ *
+ * @param text - The CSV text, with or without a byte order mark
+ * @returns The rows, each an array of raw field values
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Escapes a value for a CSV field, quoting it when it holds separators, quotes or line breaks
+ *
+ * @param value - The value to escape
+ * @returns The escaped field
+ */
+function escapeCsvField(value: CsvValue): string {
+  if (value === null) {
+    return "";
+  }
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
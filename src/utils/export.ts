@@ -0,0 +1,249 @@
+import type { Classroom } from "../models/classroom.js";
+import { formatCsv, type CsvValue } from "./csv.js";
+
+/**
+ * Completion status of a student for a lab in an export
+ */
+export type ExportStatus = "completed" | "not_completed";
+
+/**
+ * A lab as listed in an export
+ */
+export interface ExportLab {
+  id: string;
+  name: string;
+  startedAt: string; // ISO 8601 timestamp
+  endedAt: string | null; // ISO 8601 timestamp, null while the lab is active
+  deadline: string | null; // ISO 8601 timestamp, null if the lab had no deadline
+  steps: string[];
+  groupMode: "one" | "all" | null; // How groups completed the lab together, null for individual labs
+}
+
+/**
+ * A student's result for one lab in an export
+ */
+export interface ExportResult {
+  labId: string;
+  status: ExportStatus;
+  completedAt: string | null; // ISO 8601 timestamp, null if not completed or unknown
+  late: boolean; // Completed after the deadline of the lab
+  completedBy: string | null; // Discord user ID of the group member who completed the lab for the student, null if none
+  override: ExportOverride | null; // Latest staff change of the completion, null if none
+}
+
+/**
+ * A staff change of a student's completion in an export
+ */
+export interface ExportOverride {
+  action: "mark" | "unmark";
+  by: string; // Discord user ID of the staff member
+  reason: string;
+  at: string; // ISO 8601 timestamp
+}
+
+/**
+ * A quiz as listed in an export
+ */
+export interface ExportQuiz {
+  id: string;
+  question: string;
+  choices: string[];
+  correctChoice: number; // Index of the correct answer (0-based)
+  startedAt: string; // ISO 8601 timestamp
+  closedAt: string | null; // ISO 8601 timestamp, null while the quiz is open
+}
+
+/**
+ * A student's answer to one quiz in an export
+ */
+export interface ExportQuizAnswer {
+  quizId: string;
+  choice: number | null; // Index of the chosen answer (0-based), null if not answered
+  correct: boolean;
+}
+
+/**
+ * A student as listed in an export, with a result for every lab and quiz
+ */
+export interface ExportStudent {
+  id: string; // Discord user ID
+  name: string;
+  studentNumber: string | null; // University student ID from the roster
+  realName: string | null; // Real name from the roster
+  group: number | null;
+  groupName: string | null;
+  results: ExportResult[];
+  quizAnswers: ExportQuizAnswer[];
+  quizCorrect: number; // Number of quizzes answered correctly
+}
+
+/**
+ * Full export of a classroom
+ * The shape is versioned so that sheets and scripts built on it keep working
+ */
+export interface ClassroomExport {
+  version: 1;
+  exportedAt: string; // ISO 8601 timestamp
+  classroom: {
+    id: string;
+    name: string;
+    archivedAt: string | null; // ISO 8601 timestamp, null while the classroom is active
+    groups: { number: number; name: string }[];
+  };
+  labs: ExportLab[];
+  quizzes: ExportQuiz[];
+  students: ExportStudent[];
+}
+
+// Columns of the CSV export, one row per student and lab
+const CSV_COLUMNS = [
+  "student_id",
+  "student_name",
+  "student_number",
+  "real_name",
+  "group",
+  "group_name",
+  "quiz_correct",
+  "quiz_answered",
+  "lab_id",
+  "lab_name",
+  "lab_started_at",
+  "status",
+  "completed_at",
+  "late",
+  "completed_by",
+  "override",
+  "override_by",
+  "override_reason",
+] as const;
+
+/**
+ * Collects the students, labs, completions and quiz answers of a classroom
+ *
+ * @param classroom - The classroom to export
+ * @returns The export, with labs and quizzes in the order they were run and students in enrollment order
+ */
+export function createClassroomExport(classroom: Classroom): ClassroomExport {
+  const labs = classroom.labs;
+
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    classroom: {
+      id: classroom.id,
+      name: classroom.name,
+      archivedAt: classroom.archivedAt?.toISOString() ?? null,
+      groups: Array.from({ length: classroom.groups }, (_, i) => ({
+        number: i + 1,
+        name: classroom.getGroupName(i + 1),
+      })),
+    },
+    labs: labs.map((lab) => ({
+      id: lab.id,
+      name: lab.name,
+      startedAt: lab.startTime.toISOString(),
+      endedAt: lab.endTime?.toISOString() ?? null,
+      deadline: lab.deadline?.toISOString() ?? null,
+      steps: lab.steps ?? [],
+      groupMode: lab.groupMode ?? null,
+    })),
+    quizzes: classroom.quizzes.list.map((quiz) => ({
+      id: quiz.id,
+      question: quiz.question,
+      choices: quiz.choices,
+      correctChoice: quiz.correctChoice,
+      startedAt: quiz.startTime.toISOString(),
+      closedAt: quiz.closedAt?.toISOString() ?? null,
+    })),
+    students: classroom.students.map((student) => ({
+      id: student.id,
+      name: student.name,
+      studentNumber: student.studentNumber ?? null,
+      realName: student.realName ?? null,
+      group: student.group ?? null,
+      groupName: student.group ? classroom.getGroupName(student.group) : null,
+      results: labs.map((lab) => {
+        const completion = student.completedLabs.get(lab.id);
+        const override = classroom.overrides.getLatest(student.id, lab.id);
+        return {
+          labId: lab.id,
+          status: completion ? "completed" : "not_completed",
+          completedAt: completion?.completedAt?.toISOString() ?? null,
+          late: completion?.late ?? false,
+          completedBy: completion?.completedBy ?? null,
+          override: override
+            ? {
+                action: override.action,
+                by: override.by,
+                reason: override.reason,
+                at: override.at.toISOString(),
+              }
+            : null,
+        };
+      }),
+      quizAnswers: classroom.quizzes.list.map((quiz) => {
+        const answer = quiz.answers.find(
+          (answer) => answer.studentId === student.id,
+        );
+        return {
+          quizId: quiz.id,
+          choice: answer?.choice ?? null,
+          correct: answer?.choice === quiz.correctChoice,
+        };
+      }),
+      quizCorrect: classroom.quizzes.getScore(student.id).correct,
+    })),
+  };
+}
+
+/**
+ * Formats an export as CSV with one row per student and lab
+ * Students are still listed with empty lab columns when no lab has been run
+ *
+ * @param data - The export to format
+ * @returns The CSV text, with a header row and CRLF line endings
+ */
+export function formatExportCsv(data: ClassroomExport): string {
+  const labs = new Map(data.labs.map((lab) => [lab.id, lab]));
+  const rows: CsvValue[][] = [];
+
+  for (const student of data.students) {
+    const studentColumns = [
+      student.id,
+      student.name,
+      student.studentNumber,
+      student.realName,
+      student.group,
+      student.groupName,
+      student.quizCorrect,
+      student.quizAnswers.filter((answer) => answer.choice !== null).length,
+    ];
+
+    if (student.results.length === 0) {
+      rows.push([
+        ...studentColumns,
+        ...CSV_COLUMNS.slice(studentColumns.length).map(() => null),
+      ]);
+      continue;
+    }
+
+    for (const result of student.results) {
+      const lab = labs.get(result.labId);
+      rows.push([
+        ...studentColumns,
+        result.labId,
+        lab?.name ?? null,
+        lab?.startedAt ?? null,
+        result.status,
+        result.completedAt,
+        result.late,
+        result.completedBy,
+        result.override?.action ?? null,
+        result.override?.by ?? null,
+        result.override?.reason ?? null,
+      ]);
+    }
+  }
+
+  return formatCsv([CSV_COLUMNS, ...rows]);
+}
@@ -0,0 +1,89 @@
+// Longest description of a Discord embed
+export const MAX_DESCRIPTION_LENGTH = 4096;
+
+// Blank line between the sections of a description
+const SECTION_SEPARATOR = "\n\n";
+
+/**
+ * Formats a duration as a short human-readable string
+ *
+ * @param ms - The duration in milliseconds
+ * @returns The formatted duration, e.g. "1h 5m", "3m 20s" or "45s"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${seconds}s`;
+  }
+  return `${seconds}s`;
+}
+
+/**
+ * Joins lines into a list that fits a Discord length limit
+ * Lines that do not fit are summarized in a trailing "...and N more" line
+ *
+ * @param lines - The lines to join
+ * @param maxLength - The maximum length of the result, e.g. 1024 for embed field values
+ * @returns The joined lines
+ */
+export function formatList(lines: string[], maxLength: number): string {
+  let result = "";
+
+  for (let i = 0; i < lines.length; i++) {
+    const next = result ? `${result}\n${lines[i]}` : lines[i];
+    const more = `\n...and ${lines.length - i - 1} more`;
+
+    // Keep room for the summary line unless this is the last line
+    if (next.length + (i < lines.length - 1 ? more.length : 0) > maxLength) {
+      return `${result}\n...and ${lines.length - i} more`.trim();
+    }
+    result = next;
+  }
+
+  return result;
+}
+
+/**
+ * Joins the sections of an embed description so that together they fit a Discord length limit
+ * Sections share the room evenly and are cut line by line with formatList,
+ * while sections shorter than their share leave the rest to the others
+ *
+ * @param sections - The sections in display order, empty ones are skipped
+ * @param maxLength - The maximum length of the result (default: 4096 for embed descriptions)
+ * @returns The sections separated by blank lines
+ */
+export function formatSections(
+  sections: string[],
+  maxLength: number = MAX_DESCRIPTION_LENGTH,
+): string {
+  const parts = sections.map((section) => section.trim()).filter(Boolean);
+  const shares: number[] = [];
+  let room = maxLength - SECTION_SEPARATOR.length * (parts.length - 1);
+
+  // Hand out shares from the shortest section up, so no section gets less than an even share
+  const order = parts
+    .map((_, index) => index)
+    .sort((a, b) => parts[a].length - parts[b].length);
+  order.forEach((index, position) => {
+    shares[index] = Math.min(
+      parts[index].length,
+      Math.floor(room / (order.length - position)),
+    );
+    room -= shares[index];
+  });
+
+  return parts
+    .map((part, index) =>
+      part.length <= shares[index]
+        ? part
+        : formatList(part.split("\n"), shares[index]),
+    )
+    .join(SECTION_SEPARATOR);
+}
@@ -0,0 +1,391 @@
+import {
+  ChannelType,
+  Client,
+  PermissionsBitField,
+  ThreadChannel,
+  type OverwriteResolvable,
+} from "discord.js";
+import {
+  onClassroomRegistered,
+  type Classroom,
+  type ClassroomRole,
+  type GroupSpaceType,
+  type LabSession,
+  type Student,
+} from "../models/classroom.js";
+import logger from "./logger.js";
+
+/**
+ * Creates a private thread or voice channel for every group of a classroom
+ * Threads are created in the channel holding the classroom thread, since Discord has no nested threads
+ * Voice channels are created in the same category and are only visible to the group's members and the staff
+ *
+ * @param classroom - The classroom to create the spaces for
+ * @param thread - The classroom thread
+ * @param type - The kind of space to create
+ * @returns Channel IDs of the created spaces, keyed by group number
+ */
+export async function createGroupSpaces(
+  classroom: Classroom,
+  thread: ThreadChannel,
+  type: GroupSpaceType,
+): Promise<Map<number, string>> {
+  const parent = thread.parent;
+  if (!parent) {
+    throw new Error("The classroom thread has no parent channel");
+  }
+
+  const spaces = new Map<number, string>();
+
+  for (let group = 1; group <= classroom.groups; group++) {
+    const name = `${classroom.name} - ${classroom.getGroupName(group)}`;
+
+    if (type === "thread") {
+      if (parent.type !== ChannelType.GuildText) {
+        throw new Error("Private threads can only be created in text channels");
+      }
+
+      const groupThread = await parent.threads.create({
+        name,
+        type: ChannelType.PrivateThread,
+        invitable: false, // Only the bot moves students between group threads
+        autoArchiveDuration: 1440,
+        reason: `${classroom.getGroupName(group)} of ${classroom.name}`,
+      });
+      for (const userId of getSpaceMemberIds(classroom, group)) {
+        await groupThread.members.add(userId);
+      }
+      spaces.set(group, groupThread.id);
+    } else {
+      const permissionOverwrites: OverwriteResolvable[] = [
+        {
+          id: thread.guild.roles.everyone.id,
+          deny: [PermissionsBitField.Flags.ViewChannel],
+        },
+        {
+          id: thread.client.user.id,
+          allow: [
+            PermissionsBitField.Flags.ViewChannel,
+            PermissionsBitField.Flags.Connect,
+            PermissionsBitField.Flags.ManageChannels,
+          ],
+        },
+      ];
+      for (const userId of getSpaceMemberIds(classroom, group)) {
+        permissionOverwrites.push({
+          id: userId,
+          allow: [
+            PermissionsBitField.Flags.ViewChannel,
+            PermissionsBitField.Flags.Connect,
+          ],
+        });
+      }
+
+      const voiceChannel = await thread.guild.channels.create({
+        name,
+        type: ChannelType.GuildVoice,
+        parent: parent.parentId,
+        permissionOverwrites,
+        reason: `${classroom.getGroupName(group)} of ${classroom.name}`,
+      });
+      spaces.set(group, voiceChannel.id);
+    }
+  }
+
+  logger.classroom(
+    `Created ${spaces.size} group ${type}(s) for classroom "${classroom.name}"`,
+  );
+  return spaces;
+}
+
+/**
+ * Deletes the voice channels of a classroom's groups
+ * Private threads are kept, as they hold the groups' discussions
+ *
+ * @param client - The Discord client
+ * @param classroom - The classroom whose voice channels to delete
+ * @param reason - Why the channels are deleted, shown in the audit log
+ */
+export async function deleteGroupSpaces(
+  client: Client,
+  classroom: Classroom,
+  reason: string,
+): Promise<void> {
+  if (classroom.groupSpaceType !== "voice") {
+    return;
+  }
+
+  // Forget the channels first, so a lab starting meanwhile creates new ones
+  const channelIds = [...classroom.groupSpaces.values()];
+  classroom.removeGroupSpaces();
+
+  for (const channelId of channelIds) {
+    try {
+      const channel = await client.channels.fetch(channelId);
+      await channel?.delete(reason);
+    } catch (error) {
+      logger.classroom(
+        `Failed to delete group voice channel ${channelId}: %O`,
+        error,
+      );
+    }
+  }
+
+  logger.classroom(
+    `Deleted ${channelIds.length} group voice channel(s) of classroom "${classroom.name}"`,
+  );
+}
+
+/**
+ * Closes the group spaces of an archived classroom
+ * Voice channels are deleted, while private threads are archived so their discussions stay readable
+ *
+ * @param client - The Discord client
+ * @param classroom - The archived classroom
+ * @param reason - Why the spaces are closed, shown in the audit log
+ */
+export async function closeGroupSpaces(
+  client: Client,
+  classroom: Classroom,
+  reason: string,
+): Promise<void> {
+  if (classroom.groupSpaceType !== "thread") {
+    return await deleteGroupSpaces(client, classroom, reason);
+  }
+
+  for (const channelId of classroom.groupSpaces.values()) {
+    try {
+      const channel = await client.channels.fetch(channelId);
+      if (channel?.isThread() && !channel.archived) {
+        await channel.setArchived(true, reason);
+      }
+    } catch (error) {
+      logger.classroom(
+        `Failed to archive group thread ${channelId}: %O`,
+        error,
+      );
+    }
+  }
+
+  logger.classroom(
+    `Archived ${classroom.groupSpaces.size} group thread(s) of classroom "${classroom.name}"`,
+  );
+}
+
+/**
+ * Keeps the members of group spaces in sync with group assignments and the classroom staff
+ * Listens to every registered classroom, so joins, approved switches and bulk assignments are all covered
+ * Voice channels only last for a lab: they are deleted when it ends and created again when the next one starts
+ *
+ * @param client - The Discord client used to reach the spaces
+ */
+export function initGroupSpaces(client: Client): void {
+  onClassroomRegistered((classroom) => {
+    classroom.on(
+      "student-group-changed",
+      (student: Student, _group?: number, previous?: number) => {
+        syncStudentGroupSpace(client, classroom, student, previous).catch(
+          (error) => {
+            logger.classroom(
+              `Failed to move ${student.name} between group spaces: %O`,
+              error,
+            );
+          },
+        );
+      },
+    );
+
+    classroom.on(
+      "staff-changed",
+      (userId: string, role: ClassroomRole | null) => {
+        syncStaffGroupSpaces(client, classroom, userId, role !== null).catch(
+          (error) => {
+            logger.classroom(
+              `Failed to update staff ${userId} in group spaces: %O`,
+              error,
+            );
+          },
+        );
+      },
+    );
+
+    classroom.on("lab-started", () => {
+      recreateVoiceChannels(client, classroom).catch((error) => {
+        logger.classroom(
+          `Failed to create the group voice channels of "${classroom.name}": %O`,
+          error,
+        );
+      });
+    });
+
+    classroom.on("lab-ended", (lab: LabSession) => {
+      deleteGroupSpaces(client, classroom, `${lab.name} has ended`).catch(
+        (error) => {
+          logger.classroom(
+            `Failed to delete the group voice channels of "${classroom.name}": %O`,
+            error,
+          );
+        },
+      );
+    });
+  });
+}
+
+/**
+ * Lists who may see the space of a group: the classroom staff and the group's members
+ *
+ * @param classroom - The classroom of the group
+ * @param group - The group number
+ * @returns Discord user IDs of the group space's members
+ */
+function getSpaceMemberIds(classroom: Classroom, group: number): string[] {
+  return [
+    ...new Set([
+      ...classroom.getStaffIds(),
+      ...classroom.getGroupMembers(group).map((student) => student.id),
+    ]),
+  ];
+}
+
+/**
+ * Gives a user access to a group space
+ *
+ * @param client - The Discord client
+ * @param channelId - The channel ID of the space
+ * @param userId - The Discord user ID
+ */
+async function addToSpace(
+  client: Client,
+  channelId: string,
+  userId: string,
+): Promise<void> {
+  const channel = await client.channels.fetch(channelId);
+  if (channel?.isThread()) {
+    await channel.members.add(userId);
+  } else if (channel?.type === ChannelType.GuildVoice) {
+    await channel.permissionOverwrites.edit(userId, {
+      ViewChannel: true,
+      Connect: true,
+    });
+  }
+}
+
+/**
+ * Takes away a user's access to a group space
+ *
+ * @param client - The Discord client
+ * @param channelId - The channel ID of the space
+ * @param userId - The Discord user ID
+ */
+async function removeFromSpace(
+  client: Client,
+  channelId: string,
+  userId: string,
+): Promise<void> {
+  const channel = await client.channels.fetch(channelId);
+  if (channel?.isThread()) {
+    await channel.members.remove(userId);
+  } else if (channel?.type === ChannelType.GuildVoice) {
+    await channel.permissionOverwrites.delete(userId);
+  }
+}
+
+/**
+ * Removes a student from the space of their previous group and adds them to the space of their new group
+ * Staff keep their access to every space, even when they are also in a group
+ *
+ * @param client - The Discord client
+ * @param classroom - The classroom of the student
+ * @param student - The student whose group just changed
+ * @param previousGroup - The group the student left (undefined if they had none)
+ */
+async function syncStudentGroupSpace(
+  client: Client,
+  classroom: Classroom,
+  student: Student,
+  previousGroup: number | undefined,
+): Promise<void> {
+  if (!classroom.groupSpaceType || classroom.groupSpaces.size === 0) {
+    return;
+  }
+
+  const previous =
+    previousGroup !== undefined
+      ? classroom.groupSpaces.get(previousGroup)
+      : undefined;
+  const next =
+    student.group !== undefined
+      ? classroom.groupSpaces.get(student.group)
+      : undefined;
+
+  if (
+    previous &&
+    previous !== next &&
+    !classroom.getStaffIds().includes(student.id)
+  ) {
+    await removeFromSpace(client, previous, student.id);
+  }
+
+  if (next) {
+    await addToSpace(client, next, student.id);
+  }
+
+  logger.classroom(
+    `Moved ${student.name} to the group ${classroom.groupSpaceType} of ${student.group !== undefined ? classroom.getGroupName(student.group) : "no group"}`,
+  );
+}
+
+/**
+ * Gives new staff access to every group space, and takes it away from removed staff
+ * Removed staff who are members of a group keep the space of their own group
+ *
+ * @param client - The Discord client
+ * @param classroom - The classroom whose staff changed
+ * @param userId - The Discord user ID of the staff member
+ * @param isStaff - Whether the user is staff now
+ */
+async function syncStaffGroupSpaces(
+  client: Client,
+  classroom: Classroom,
+  userId: string,
+  isStaff: boolean,
+): Promise<void> {
+  const ownGroup = classroom.getStudent(userId)?.group;
+
+  for (const [group, channelId] of classroom.groupSpaces) {
+    if (isStaff) {
+      await addToSpace(client, channelId, userId);
+    } else if (group !== ownGroup) {
+      await removeFromSpace(client, channelId, userId);
+    }
+  }
+
+  logger.classroom(
+    `${isStaff ? "Added" : "Removed"} staff ${userId} ${isStaff ? "to" : "from"} the group spaces of "${classroom.name}"`,
+  );
+}
+
+/**
+ * Creates the group voice channels again for a new lab, with the current members of each group
+ *
+ * @param client - The Discord client
+ * @param classroom - The classroom whose lab just started
+ */
+async function recreateVoiceChannels(
+  client: Client,
+  classroom: Classroom,
+): Promise<void> {
+  if (classroom.groupSpaceType !== "voice" || classroom.groupSpaces.size > 0) {
+    return;
+  }
+
+  const thread = await client.channels.fetch(classroom.id);
+  if (!thread?.isThread()) {
+    throw new Error(`Classroom thread ${classroom.id} not found`);
+  }
+
+  classroom.setGroupSpaces(
+    "voice",
+    await createGroupSpaces(classroom, thread, "voice"),
+  );
+}
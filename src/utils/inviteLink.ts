@@ -19,6 +19,9 @@ export function generateInviteLink(): string {
     PermissionsBitField.Flags.SendMessages,
     PermissionsBitField.Flags.ManageThreads,
     PermissionsBitField.Flags.CreatePublicThreads,
+    PermissionsBitField.Flags.CreatePrivateThreads,
+    PermissionsBitField.Flags.ManageChannels,
+    PermissionsBitField.Flags.ManageRoles,
     PermissionsBitField.Flags.EmbedLinks,
     PermissionsBitField.Flags.AttachFiles,
     PermissionsBitField.Flags.ReadMessageHistory,
@@ -0,0 +1,49 @@
+import type { Classroom, LabSession } from "../models/classroom.js";
+
+// Number of characters in each progress bar
+const BAR_LENGTH = 10;
+
+/**
+ * Creates a funnel description of how many students reached each checkpoint of a lab
+ * Shows a progress bar per checkpoint, followed by a per-group breakdown if applicable
+ *
+ * @param classroom - The classroom the lab belongs to
+ * @param lab - The lab session to describe
+ * @returns The funnel description, or an empty string if the lab has no checkpoints
+ */
+export function createStepFunnelDescription(
+  classroom: Classroom,
+  lab: LabSession,
+): string {
+  if (!lab.steps) {
+    return "";
+  }
+
+  const totalStudents = classroom.students.size;
+  const funnel = classroom.getStepFunnel(lab.id);
+
+  let description = "**Checkpoints:**\n";
+  description += lab.steps
+    .map((name, step) => {
+      const reached = funnel[step];
+      const percentage = Math.round((reached / totalStudents) * 100) || 0;
+      const filled = Math.round((percentage / 100) * BAR_LENGTH);
+      const bar = "█".repeat(filled) + "░".repeat(BAR_LENGTH - filled);
+      return `\`${bar}\` ${step + 1}. ${name}: ${reached}/${totalStudents} (${percentage}%)`;
+    })
+    .join("\n");
+
+  // Show where each group is stuck as a compact chain of counts
+  if (classroom.groups > 1) {
+    description += "\n\n**Checkpoints by Group:**\n";
+    for (let i = 1; i <= classroom.groups; i++) {
+      const groupTotal = classroom.students.filter(
+        (student) => student.group === i,
+      ).size;
+      const groupFunnel = classroom.getStepFunnel(lab.id, i);
+      description += `**${classroom.getGroupName(i)}:** ${groupFunnel.join(" → ")} (of ${groupTotal})\n`;
+    }
+  }
+
+  return description;
+}
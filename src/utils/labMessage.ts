@@ -0,0 +1,53 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ComponentType,
+  EmbedBuilder,
+  ThreadChannel,
+} from "discord.js";
+import type { LabSession } from "../models/classroom.js";
+import logger from "./logger.js";
+
+/**
+ * Marks the message of a lab session as ended
+ * Disables all of its buttons so students can no longer interact with the lab
+ *
+ * @param thread - The classroom thread holding the lab message
+ * @param lab - The lab session whose message should be closed
+ * @returns true if the message was updated, false otherwise
+ */
+export async function closeLabMessage(
+  thread: ThreadChannel,
+  lab: LabSession,
+): Promise<boolean> {
+  if (!lab.messageId) {
+    logger.system(`Lab "${lab.name}" has no message to close`);
+    return false;
+  }
+
+  try {
+    const message = await thread.messages.fetch(lab.messageId);
+
+    // Rebuild every row with the same buttons, but disabled
+    const components = message.components.map((row) =>
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        row.components
+          .filter((component) => component.type === ComponentType.Button)
+          .map((component) => ButtonBuilder.from(component).setDisabled(true)),
+      ),
+    );
+
+    const embeds = message.embeds.map((embed) =>
+      EmbedBuilder.from(embed)
+        .setDescription("This lab session has ended.")
+        .setColor("#808080"),
+    );
+
+    await message.edit({ embeds, components });
+    logger.system(`Closed message of lab "${lab.name}"`);
+    return true;
+  } catch (error) {
+    logger.system(`Failed to close message of lab "${lab.name}": %O`, error);
+    return false;
+  }
+}
@@ -0,0 +1,167 @@
+import { Client, ThreadChannel } from "discord.js";
+import {
+  onClassroomRegistered,
+  type Classroom,
+  type LabSession,
+} from "../models/classroom.js";
+import { closeLabMessage } from "./labMessage.js";
+import logger from "./logger.js";
+
+/**
+ * Pending reminder and deadline timers, keyed by lab ID
+ */
+const timers = new Map<string, NodeJS.Timeout[]>();
+
+/**
+ * Posts deadline reminders and closes labs at their deadline
+ * Schedules labs as they start, and the active labs of classrooms restored from storage
+ *
+ * @param client - The Discord client used to post in classroom threads
+ */
+export function initLabScheduler(client: Client): void {
+  onClassroomRegistered((classroom) => {
+    if (classroom.activeLabSession) {
+      scheduleLab(client, classroom, classroom.activeLabSession);
+    }
+    classroom.on("lab-started", (lab: LabSession) =>
+      scheduleLab(client, classroom, lab),
+    );
+    classroom.on("lab-ended", (lab: LabSession) => cancelLab(lab));
+  });
+}
+
+/**
+ * Schedules the reminders and the deadline of a lab
+ * Reminders whose time has already passed are skipped
+ *
+ * @param client - The Discord client
+ * @param classroom - The classroom running the lab
+ * @param lab - The lab to schedule
+ */
+function scheduleLab(
+  client: Client,
+  classroom: Classroom,
+  lab: LabSession,
+): void {
+  if (!lab.deadline) {
+    return;
+  }
+
+  const deadline = lab.deadline.getTime();
+  const labTimers: NodeJS.Timeout[] = [];
+
+  for (const minutes of lab.reminders ?? []) {
+    const delay = deadline - minutes * 60 * 1000 - Date.now();
+    if (delay > 0) {
+      labTimers.push(
+        setTimeout(
+          () => runTask(client, classroom, lab, "reminder", sendReminder),
+          delay,
+        ),
+      );
+    }
+  }
+
+  labTimers.push(
+    setTimeout(
+      () => runTask(client, classroom, lab, "deadline", handleDeadline),
+      Math.max(0, deadline - Date.now()),
+    ),
+  );
+
+  timers.set(lab.id, labTimers);
+  logger.system(
+    `Scheduled ${labTimers.length - 1} reminder(s) and the deadline of lab "${lab.name}"`,
+  );
+}
+
+/**
+ * Cancels the pending timers of a lab, e.g. when it is ended early
+ *
+ * @param lab - The lab whose timers to cancel
+ */
+function cancelLab(lab: LabSession): void {
+  for (const timer of timers.get(lab.id) ?? []) {
+    clearTimeout(timer);
+  }
+  timers.delete(lab.id);
+}
+
+/**
+ * Runs a scheduled task if its lab is still active, logging any failure
+ *
+ * @param client - The Discord client
+ * @param classroom - The classroom running the lab
+ * @param lab - The lab the task belongs to
+ * @param name - Name of the task for logging
+ * @param task - The task, given the classroom thread
+ */
+async function runTask(
+  client: Client,
+  classroom: Classroom,
+  lab: LabSession,
+  name: string,
+  task: (
+    thread: ThreadChannel,
+    classroom: Classroom,
+    lab: LabSession,
+  ) => Promise<void>,
+): Promise<void> {
+  if (classroom.activeLabSession !== lab) {
+    return;
+  }
+
+  try {
+    const thread = await client.channels.fetch(classroom.id);
+    if (!thread?.isThread()) {
+      throw new Error(`Classroom thread ${classroom.id} not found`);
+    }
+    await task(thread, classroom, lab);
+  } catch (error) {
+    logger.system(`Failed to run ${name} of lab "${lab.name}": %O`, error);
+  }
+}
+
+/**
+ * Reminds the classroom of the time left until the deadline
+ *
+ * @param thread - The classroom thread
+ * @param classroom - The classroom running the lab
+ * @param lab - The lab to remind of
+ */
+async function sendReminder(
+  thread: ThreadChannel,
+  classroom: Classroom,
+  lab: LabSession,
+): Promise<void> {
+  const deadline = Math.floor(lab.deadline!.getTime() / 1000);
+  await thread.send(
+    `⏰ **${lab.name}** is due <t:${deadline}:R> (<t:${deadline}:t>). ${classroom.countCompletions(lab.id)}/${classroom.students.size} students have completed it so far.`,
+  );
+}
+
+/**
+ * Ends the lab at its deadline, or announces that completions now count as late
+ *
+ * @param thread - The classroom thread
+ * @param classroom - The classroom running the lab
+ * @param lab - The lab that is due
+ */
+async function handleDeadline(
+  thread: ThreadChannel,
+  classroom: Classroom,
+  lab: LabSession,
+): Promise<void> {
+  if (lab.acceptLate) {
+    await thread.send(
+      `⏰ The deadline of **${lab.name}** has passed. The lab stays open, but completions from now on are marked as late.`,
+    );
+    return;
+  }
+
+  classroom.endLab();
+  await closeLabMessage(thread, lab);
+  await thread.send(
+    `⏰ The deadline of **${lab.name}** has passed and the lab has been closed. ${classroom.countCompletions(lab.id)}/${classroom.students.size} students completed it.`,
+  );
+}
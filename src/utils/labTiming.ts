@@ -0,0 +1,104 @@
+import type { Classroom, LabSession } from "../models/classroom.js";
+import { formatDuration } from "./format.js";
+
+// Number of fastest students to list
+const FASTEST_COUNT = 3;
+
+/**
+ * Summary of how long students took to complete a lab
+ */
+export interface CompletionTiming {
+  count: number; // Number of completions with a timestamp
+  median: number; // Milliseconds from the lab start
+  p90: number; // Milliseconds from the lab start
+}
+
+/**
+ * Summarizes the time students took to complete a lab
+ *
+ * @param classroom - The classroom the lab belongs to
+ * @param labId - The ID of the lab session
+ * @param group - Optional group number to restrict the summary to
+ * @returns The median and 90th percentile time to complete, or null if no completion has a timestamp
+ */
+export function getCompletionTiming(
+  classroom: Classroom,
+  labId: string,
+  group?: number,
+): CompletionTiming | null {
+  const durations = classroom
+    .getCompletionTimes(labId, group)
+    .map((time) => time.duration);
+  if (durations.length === 0) {
+    return null;
+  }
+
+  return {
+    count: durations.length,
+    median: percentile(durations, 0.5),
+    p90: percentile(durations, 0.9),
+  };
+}
+
+/**
+ * Creates a description of how long students took to complete a lab
+ * Shows the median and 90th percentile, the fastest students and a per-group comparison
+ *
+ * @param classroom - The classroom the lab belongs to
+ * @param lab - The lab session to describe
+ * @returns The timing description, or an empty string if no completion has a timestamp
+ */
+export function createTimingDescription(
+  classroom: Classroom,
+  lab: LabSession,
+): string {
+  const timing = getCompletionTiming(classroom, lab.id);
+  if (!timing) {
+    return "";
+  }
+
+  let description = `**Time to Complete:** ${formatTiming(timing)}\n`;
+
+  const fastest = classroom
+    .getCompletionTimes(lab.id)
+    .slice(0, FASTEST_COUNT)
+    .map(
+      ({ student, duration }, index) =>
+        `${index + 1}. ${student.name} (${formatDuration(duration)})`,
+    );
+  description += `**Fastest:** ${fastest.join(", ")}\n`;
+
+  if (classroom.groups > 1) {
+    description += "\n**Time to Complete by Group:**\n";
+    for (let i = 1; i <= classroom.groups; i++) {
+      const groupTiming = getCompletionTiming(classroom, lab.id, i);
+      description += `**${classroom.getGroupName(i)}:** ${groupTiming ? formatTiming(groupTiming) : "No completions yet"}\n`;
+    }
+  }
+
+  return description;
+}
+
+/**
+ * Formats a timing summary on one line
+ *
+ * @param timing - The timing summary
+ * @returns The formatted summary, e.g. "median 42m 10s, p90 1h 35m (12 students)"
+ */
+export function formatTiming(timing: CompletionTiming): string {
+  return `median ${formatDuration(timing.median)}, p90 ${formatDuration(timing.p90)} (${timing.count} student${timing.count !== 1 ? "s" : ""})`;
+}
+
+/**
+ * Computes a percentile by linear interpolation between the closest values
+ *
+ * @param sorted - The values, sorted in ascending order
+ * @param p - The percentile as a fraction, e.g. 0.9
+ * @returns The percentile value
+ */
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
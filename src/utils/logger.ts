@@ -12,10 +12,14 @@ export const logInteraction = debug("gdg:interaction");
 /** Classroom management logging */
 export const logClassroom = debug("gdg:classroom");
 
+/** Persistent storage logging */
+export const logStorage = debug("gdg:storage");
+
 /** Consolidated logger object for convenience */
 export default {
   system: logSystem,
   command: logCommand,
   interaction: logInteraction,
   classroom: logClassroom,
+  storage: logStorage,
 };
@@ -0,0 +1,130 @@
+import {
+  AnyThreadChannel,
+  BaseInteraction,
+  CommandInteraction,
+  PermissionFlagsBits,
+} from "discord.js";
+import {
+  classrooms,
+  type Classroom,
+  type ClassroomRole,
+} from "../models/classroom.js";
+import logger from "./logger.js";
+
+// Who each required role refers to in denial messages
+const ROLE_DESCRIPTIONS: Record<ClassroomRole, string> = {
+  ta: "classroom staff (instructors and TAs)",
+  instructor: "classroom instructors",
+  owner: "the classroom owner",
+};
+
+/**
+ * Checks whether an interaction comes from the server a classroom belongs to, or from a DM
+ * Classrooms created before their server was tracked only count as local in their own thread
+ *
+ * @param interaction - The Discord interaction to check
+ * @param classroom - The classroom the interaction acts on
+ * @returns true if the interaction was made in the classroom's server or in a DM
+ */
+function isInClassroomServer(
+  interaction: BaseInteraction,
+  classroom: Classroom,
+): boolean {
+  if (!interaction.guildId) {
+    // Staff use buttons sent to them by DM, where nobody has administrator rights
+    return true;
+  }
+
+  return classroom.guildId
+    ? classroom.guildId === interaction.guildId
+    : interaction.channelId === classroom.id;
+}
+
+/**
+ * Checks whether the user of an interaction has at least the given role in a classroom
+ * Server administrators are always allowed, so they can manage any classroom of their server
+ * Nobody is allowed from another server, so classrooms looked up by ID stay within their server
+ * and administrators of one server cannot reach the classrooms of another
+ *
+ * @param interaction - The Discord interaction to check
+ * @param classroom - The classroom the interaction acts on
+ * @param role - The minimum required role
+ * @returns true if the user is allowed
+ */
+export function hasClassroomRole(
+  interaction: BaseInteraction,
+  classroom: Classroom,
+  role: ClassroomRole,
+): boolean {
+  if (!isInClassroomServer(interaction, classroom)) {
+    return false;
+  }
+
+  return (
+    classroom.hasRole(interaction.user.id, role) ||
+    !!interaction.memberPermissions?.has(PermissionFlagsBits.Administrator)
+  );
+}
+
+/**
+ * Creates the message shown to users who lack the role required for an action
+ *
+ * @param role - The minimum required role
+ * @returns A message explaining who may perform the action
+ */
+export function getPermissionDeniedMessage(role: ClassroomRole): string {
+  return `Only ${ROLE_DESCRIPTIONS[role]} can do this.`;
+}
+
+/**
+ * Finds the classroom of the thread a command is used in and checks the user's role in it
+ * Replies to the user with the reason when the command cannot be used there
+ *
+ * @param interaction - The command interaction
+ * @param role - The minimum required role, or undefined if anyone may use the command
+ * @returns The classroom thread and classroom, or undefined if the user was turned away
+ */
+export async function resolveClassroom(
+  interaction: CommandInteraction,
+  role?: ClassroomRole,
+): Promise<{ thread: AnyThreadChannel; classroom: Classroom } | undefined> {
+  const command = interaction.commandName;
+
+  if (!interaction.channel || !interaction.channel.isThread()) {
+    logger.command(
+      `${interaction.user.tag} attempted to use ${command} outside of a thread`,
+    );
+    await interaction.reply({
+      content: "This command can only be used in classroom threads.",
+      flags: "Ephemeral",
+    });
+    return undefined;
+  }
+
+  const thread = interaction.channel;
+  const classroom = classrooms.get(thread.id);
+
+  if (!classroom) {
+    logger.command(
+      `${interaction.user.tag} attempted to use ${command} in a non-classroom thread`,
+    );
+    await interaction.reply({
+      content: "This thread is not a registered classroom.",
+      flags: "Ephemeral",
+    });
+    return undefined;
+  }
+
+  if (role && !hasClassroomRole(interaction, classroom, role)) {
+    logger.command(
+      `${interaction.user.tag} attempted to use ${command} without permission`,
+    );
+    await interaction.reply({
+      content: getPermissionDeniedMessage(role),
+      flags: "Ephemeral",
+    });
+    return undefined;
+  }
+
+  return { thread, classroom };
+}
@@ -0,0 +1,342 @@
+import { Client, SnowflakeUtil } from "discord.js";
+import {
+  onClassroomRegistered,
+  type AttendanceCheckIn,
+  type BadgeAward,
+  type Classroom,
+  type CompletionOverride,
+  type LabSession,
+  type PointReason,
+  type Student,
+  type Thanks,
+} from "../models/classroom.js";
+import { getScoringRules } from "../models/guildSettings.js";
+import logger from "./logger.js";
+
+/**
+ * A badge awarded at a participation milestone
+ */
+export interface Badge {
+  id: string;
+  name: string;
+  emoji: string;
+  description: string;
+  earned: (classroom: Classroom, student: Student) => boolean;
+}
+
+/**
+ * Every badge students can earn, in the order they are shown
+ */
+export const BADGES: readonly Badge[] = [
+  {
+    id: "first-lab",
+    name: "First Steps",
+    emoji: "🧪",
+    description: "Complete a first lab",
+    earned: (_, student) => student.completedLabs.size >= 1,
+  },
+  {
+    id: "five-labs",
+    name: "Lab Regular",
+    emoji: "🔬",
+    description: "Complete 5 labs",
+    earned: (_, student) => student.completedLabs.size >= 5,
+  },
+  {
+    id: "early-bird",
+    name: "Early Bird",
+    emoji: "🐦",
+    description: "Be among the first to complete 3 labs",
+    earned: (classroom, student) =>
+      countAwards(classroom, student, "early-completion") >= 3,
+  },
+  {
+    id: "helping-hand",
+    name: "Helping Hand",
+    emoji: "🤝",
+    description: "Be thanked by classmates 5 times",
+    earned: (classroom, student) =>
+      classroom.participation.thanks.filter(
+        (thanks) => thanks.toId === student.id,
+      ).length >= 5,
+  },
+  {
+    id: "always-there",
+    name: "Always There",
+    emoji: "📅",
+    description: "Check in to 5 attendance sessions",
+    earned: (classroom, student) =>
+      classroom.attendance.list.filter((session) =>
+        session.checkIns.some((checkIn) => checkIn.studentId === student.id),
+      ).length >= 5,
+  },
+  {
+    id: "century",
+    name: "Century",
+    emoji: "💯",
+    description: "Earn 100 points in a classroom",
+    earned: (classroom, student) =>
+      classroom.participation.getPoints(student.id) >= 100,
+  },
+];
+
+/**
+ * A student's standing on a leaderboard
+ */
+export interface LeaderboardEntry {
+  userId: string; // Discord user ID
+  name: string;
+  points: number;
+  badges: string[]; // IDs of the badges earned, without duplicates
+}
+
+/**
+ * Awards participation points and badges as classroom activity happens
+ * Points follow the scoring rules of the classroom's server, and badges are announced in the classroom thread
+ *
+ * @param client - The Discord client used to announce badges
+ */
+export function initPoints(client: Client): void {
+  onClassroomRegistered((classroom) => {
+    classroom.on("student-added", (student: Student) => {
+      const rules = getScoringRules(classroom.guildId);
+      classroom.participation.awardPoints(student.id, rules.join, "joined");
+      checkBadges(classroom, student);
+    });
+
+    classroom.on("lab-completed", (student: Student, lab: LabSession) =>
+      handleLabCompleted(classroom, student, lab),
+    );
+
+    classroom.on(
+      "completion-overridden",
+      (override: CompletionOverride, student: Student, lab: LabSession) => {
+        if (override.action === "unmark") {
+          revokeLabPoints(classroom, student, lab);
+        }
+      },
+    );
+
+    classroom.on("student-thanked", (thanks: Thanks) => {
+      const rules = getScoringRules(classroom.guildId);
+      classroom.participation.awardPoints(thanks.toId, rules.helping, "helped");
+      checkBadges(classroom, classroom.getStudent(thanks.toId)!);
+    });
+
+    classroom.on("attendance-checked-in", (checkIn: AttendanceCheckIn) => {
+      const rules = getScoringRules(classroom.guildId);
+      classroom.participation.awardPoints(
+        checkIn.studentId,
+        checkIn.late ? rules.attendanceLate : rules.attendanceOnTime,
+        "attendance",
+      );
+      checkBadges(classroom, classroom.getStudent(checkIn.studentId)!);
+    });
+
+    classroom.on("badge-awarded", (student: Student, award: BadgeAward) =>
+      announceBadge(client, classroom, student, award),
+    );
+  });
+}
+
+/**
+ * Awards points for completing a lab, with a bonus for the first students to complete it on time
+ * Completions marked by staff do not earn the bonus
+ *
+ * @param classroom - The classroom running the lab
+ * @param student - The student who completed the lab
+ * @param lab - The completed lab
+ */
+function handleLabCompleted(
+  classroom: Classroom,
+  student: Student,
+  lab: LabSession,
+): void {
+  const rules = getScoringRules(classroom.guildId);
+  classroom.participation.awardPoints(
+    student.id,
+    rules.labCompleted,
+    "lab-completed",
+    lab.id,
+  );
+
+  // The completion just recorded is included in the count, and teammates share the completer's override
+  const completion = student.completedLabs.get(lab.id);
+  const completerId = completion?.completedBy ?? student.id;
+  if (
+    !completion?.late &&
+    classroom.overrides.getLatest(completerId, lab.id)?.action !== "mark" &&
+    classroom.countCompletions(lab.id) <= rules.earlyCompletionCount
+  ) {
+    classroom.participation.awardPoints(
+      student.id,
+      rules.earlyCompletion,
+      "early-completion",
+      lab.id,
+    );
+  }
+
+  checkBadges(classroom, student);
+}
+
+/**
+ * Takes back the points a student earned for a lab whose completion was removed
+ *
+ * @param classroom - The classroom running the lab
+ * @param student - The student whose completion was removed
+ * @param lab - The lab
+ */
+function revokeLabPoints(
+  classroom: Classroom,
+  student: Student,
+  lab: LabSession,
+): void {
+  const earned = classroom.participation
+    .getPointAwards(student.id)
+    .filter((award) => award.labId === lab.id)
+    .reduce((total, award) => total + award.points, 0);
+  classroom.participation.awardPoints(
+    student.id,
+    -earned,
+    "completion-revoked",
+    lab.id,
+  );
+}
+
+/**
+ * Awards every badge whose milestone the student has reached
+ *
+ * @param classroom - The classroom the student belongs to
+ * @param student - The student to check
+ */
+function checkBadges(classroom: Classroom, student: Student): void {
+  for (const badge of BADGES) {
+    if (badge.earned(classroom, student)) {
+      classroom.participation.awardBadge(student.id, badge.id);
+    }
+  }
+}
+
+/**
+ * Congratulates a student on a badge in the classroom thread
+ *
+ * @param client - The Discord client
+ * @param classroom - The classroom the badge was earned in
+ * @param student - The student who earned the badge
+ * @param award - The badge award
+ */
+async function announceBadge(
+  client: Client,
+  classroom: Classroom,
+  student: Student,
+  award: BadgeAward,
+): Promise<void> {
+  const badge = BADGES.find((badge) => badge.id === award.badge);
+  if (!badge) {
+    return;
+  }
+
+  try {
+    const thread = await client.channels.fetch(classroom.id);
+    if (!thread?.isThread()) {
+      throw new Error(`Classroom thread ${classroom.id} not found`);
+    }
+    await thread.send({
+      content: `${badge.emoji} <@${student.id}> earned the **${badge.name}** badge: ${badge.description}!`,
+      allowedMentions: { parse: [] },
+    });
+  } catch (error) {
+    logger.system(
+      `Failed to announce badge ${badge.id} of ${student.id} in ${classroom.name}: %O`,
+      error,
+    );
+  }
+}
+
+/**
+ * Ranks the students of one or more classrooms by their points
+ * Students in several classrooms are ranked by their combined points
+ *
+ * @param classrooms - The classrooms to rank
+ * @returns The students, most points first and by name on ties
+ */
+export function getLeaderboard(classrooms: Classroom[]): LeaderboardEntry[] {
+  const entries = new Map<string, LeaderboardEntry>();
+
+  for (const classroom of classrooms) {
+    for (const student of classroom.students.values()) {
+      const entry = entries.get(student.id) ?? {
+        userId: student.id,
+        name: student.name,
+        points: 0,
+        badges: [],
+      };
+      entry.points += classroom.participation.getPoints(student.id);
+      for (const award of classroom.participation.getBadges(student.id)) {
+        if (!entry.badges.includes(award.badge)) {
+          entry.badges.push(award.badge);
+        }
+      }
+      entries.set(student.id, entry);
+    }
+  }
+
+  return [...entries.values()].sort(
+    (a, b) => b.points - a.points || a.name.localeCompare(b.name),
+  );
+}
+
+/**
+ * Formats the badges of a student as emojis
+ *
+ * @param badgeIds - The IDs of the earned badges
+ * @returns The badge emojis in display order, e.g. "🧪🤝"
+ */
+export function formatBadges(badgeIds: string[]): string {
+  return BADGES.filter((badge) => badgeIds.includes(badge.id))
+    .map((badge) => badge.emoji)
+    .join("");
+}
+
+/**
+ * Names the semester a date falls in
+ * Spring runs from January to June and fall from July to December
+ *
+ * @param date - The date
+ * @returns The semester, e.g. "Spring 2025"
+ */
+export function getSemester(date: Date): string {
+  return `${date.getMonth() < 6 ? "Spring" : "Fall"} ${date.getFullYear()}`;
+}
+
+/**
+ * Names the semester a classroom was created in, read from its thread ID
+ *
+ * @param classroom - The classroom
+ * @returns The semester, or null if the classroom ID is not a Discord snowflake
+ */
+export function getClassroomSemester(classroom: Classroom): string | null {
+  try {
+    return getSemester(new Date(SnowflakeUtil.timestampFrom(classroom.id)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Counts the point awards of a student for one activity
+ *
+ * @param classroom - The classroom the student belongs to
+ * @param student - The student
+ * @param reason - The activity
+ * @returns The number of awards
+ */
+function countAwards(
+  classroom: Classroom,
+  student: Student,
+  reason: PointReason,
+): number {
+  return classroom.participation
+    .getPointAwards(student.id)
+    .filter((award) => award.reason === reason).length;
+}
@@ -0,0 +1,208 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  Client,
+  ComponentType,
+  EmbedBuilder,
+  ThreadChannel,
+} from "discord.js";
+import {
+  onClassroomRegistered,
+  type Classroom,
+  type Quiz,
+} from "../models/classroom.js";
+import logger from "./logger.js";
+
+// Letters labelling the answer choices of a quiz, which has at most 5 choices
+export const QUIZ_LETTERS = ["A", "B", "C", "D", "E"];
+
+// Number of characters in each distribution bar
+const BAR_LENGTH = 10;
+
+/**
+ * Pending close timers of quizzes with a time limit, keyed by classroom and quiz ID
+ * Quiz IDs are start times, so quizzes of different classrooms can share one
+ */
+const timers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Ends quizzes with a time limit once time is up
+ * Schedules quizzes as they start, and the open quizzes of classrooms restored from storage,
+ * so a quiz whose time ran out while the bot was offline is ended right away
+ *
+ * @param client - The Discord client used to post the results in classroom threads
+ */
+export function initQuizScheduler(client: Client): void {
+  onClassroomRegistered((classroom) => {
+    const scheduleOpenQuizzes = () => {
+      for (const quiz of classroom.quizzes.list) {
+        scheduleQuiz(client, classroom, quiz);
+      }
+    };
+
+    if (!classroom.archivedAt) {
+      scheduleOpenQuizzes();
+    }
+    classroom.on("quiz-started", (quiz: Quiz) =>
+      scheduleQuiz(client, classroom, quiz),
+    );
+    classroom.on("quiz-closed", (quiz: Quiz) => cancelQuiz(classroom, quiz));
+    classroom.on("classroom-archived", () => {
+      for (const quiz of classroom.quizzes.list) {
+        cancelQuiz(classroom, quiz);
+      }
+    });
+    classroom.on("classroom-restored", scheduleOpenQuizzes);
+  });
+}
+
+/**
+ * Schedules the end of a quiz with a time limit that is still open
+ *
+ * @param client - The Discord client
+ * @param classroom - The classroom the quiz belongs to
+ * @param quiz - The quiz to schedule
+ */
+function scheduleQuiz(client: Client, classroom: Classroom, quiz: Quiz): void {
+  const key = getTimerKey(classroom, quiz);
+  if (!quiz.closesAt || quiz.closedAt || timers.has(key)) {
+    return;
+  }
+
+  timers.set(
+    key,
+    setTimeout(
+      async () => {
+        timers.delete(key);
+        try {
+          const thread = await client.channels.fetch(classroom.id);
+          if (!thread?.isThread()) {
+            throw new Error(`Classroom thread ${classroom.id} not found`);
+          }
+          await endQuiz(thread, classroom, quiz);
+        } catch (error) {
+          logger.system(`Failed to end quiz ${quiz.id}: %O`, error);
+        }
+      },
+      Math.max(0, quiz.closesAt.getTime() - Date.now()),
+    ),
+  );
+  logger.system(`Scheduled the end of quiz ${quiz.id} in ${classroom.name}`);
+}
+
+/**
+ * Cancels the pending close timer of a quiz, e.g. when staff end it early
+ *
+ * @param classroom - The classroom the quiz belongs to
+ * @param quiz - The quiz whose timer to cancel
+ */
+function cancelQuiz(classroom: Classroom, quiz: Quiz): void {
+  const key = getTimerKey(classroom, quiz);
+  clearTimeout(timers.get(key));
+  timers.delete(key);
+}
+
+/**
+ * Builds the key of a quiz in the timer map
+ *
+ * @param classroom - The classroom the quiz belongs to
+ * @param quiz - The quiz
+ * @returns The key, unique across classrooms
+ */
+function getTimerKey(classroom: Classroom, quiz: Quiz): string {
+  return `${classroom.id}:${quiz.id}`;
+}
+
+/**
+ * Creates an embed with the answer distribution of a quiz, marking the correct answer
+ * Shown live to staff while the quiz is open, and posted in the thread once it closes
+ *
+ * @param classroom - The classroom the quiz belongs to
+ * @param quiz - The quiz
+ * @returns An embed with the results of the quiz
+ */
+export function createQuizResultsEmbed(
+  classroom: Classroom,
+  quiz: Quiz,
+): EmbedBuilder {
+  const distribution = classroom.quizzes.getDistribution(quiz.id);
+  const answered = quiz.answers.length;
+  const correct = distribution[quiz.correctChoice];
+  const open = !quiz.closedAt && (!quiz.closesAt || quiz.closesAt > new Date());
+
+  let status: string;
+  if (open) {
+    status = quiz.closesAt
+      ? `🟢 Open, closes <t:${Math.floor(quiz.closesAt.getTime() / 1000)}:R>`
+      : "🟢 Open until ended by staff";
+  } else {
+    status = "⚫ Closed";
+  }
+
+  const lines = quiz.choices.map((choice, index) => {
+    const count = distribution[index];
+    const percentage = Math.round((count / answered) * 100) || 0;
+    const filled = Math.round((percentage / 100) * BAR_LENGTH);
+    const bar = "█".repeat(filled) + "░".repeat(BAR_LENGTH - filled);
+    const mark = index === quiz.correctChoice ? " ✅" : "";
+    return `\`${bar}\` **${QUIZ_LETTERS[index]}.** ${choice}: ${count} (${percentage}%)${mark}`;
+  });
+
+  return new EmbedBuilder()
+    .setTitle(`Quiz Results: ${quiz.question}`.slice(0, 256))
+    .setDescription(
+      `${status}\n\n` +
+        `${lines.join("\n")}\n\n` +
+        `**Answered:** ${answered}/${classroom.students.size} students\n` +
+        `**Correct:** ${correct}/${answered} (${Math.round((correct / answered) * 100) || 0}%)`,
+    )
+    .setColor(open ? "#0099FF" : "#808080")
+    .setTimestamp();
+}
+
+/**
+ * Closes a quiz, disables its answer buttons and posts the results in the thread
+ * Does nothing if the quiz was already closed, so it is safe to call from several places
+ *
+ * @param thread - The classroom thread holding the quiz message
+ * @param classroom - The classroom the quiz belongs to
+ * @param quiz - The quiz to end
+ * @returns true if the quiz was ended, false if it was already closed
+ */
+export async function endQuiz(
+  thread: ThreadChannel,
+  classroom: Classroom,
+  quiz: Quiz,
+): Promise<boolean> {
+  if (!classroom.quizzes.close(quiz.id)) {
+    return false;
+  }
+
+  if (quiz.messageId) {
+    try {
+      const message = await thread.messages.fetch(quiz.messageId);
+
+      // Rebuild every row with the same buttons, but disabled
+      const components = message.components.map((row) =>
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+          row.components
+            .filter((component) => component.type === ComponentType.Button)
+            .map((component) =>
+              ButtonBuilder.from(component).setDisabled(true),
+            ),
+        ),
+      );
+      const embeds = message.embeds.map((embed) =>
+        EmbedBuilder.from(embed).setColor("#808080"),
+      );
+
+      await message.edit({ embeds, components });
+    } catch (error) {
+      logger.system(`Failed to close message of quiz ${quiz.id}: %O`, error);
+    }
+  }
+
+  await thread.send({ embeds: [createQuizResultsEmbed(classroom, quiz)] });
+  logger.system(`Posted results of quiz ${quiz.id} in ${classroom.name}`);
+  return true;
+}
@@ -0,0 +1,258 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  Client,
+  EmbedBuilder,
+} from "discord.js";
+import {
+  classrooms,
+  onClassroomRegistered,
+  type Classroom,
+  type LabSession,
+  type Student,
+} from "../models/classroom.js";
+import { formatDuration, formatList } from "./format.js";
+import logger from "./logger.js";
+import { getPermissionDeniedMessage, hasClassroomRole } from "./permissions.js";
+
+// Most users mentioned in one nudge message, well below Discord's limit of 100
+const MENTIONS_PER_MESSAGE = 50;
+
+/**
+ * Pending time-based alert timers, keyed by lab ID
+ */
+const timers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Alerts classroom staff by DM to the students still working on a lab
+ * Alerts once a lab's share of completions is reached or its time threshold passes, whichever comes first
+ *
+ * @param client - The Discord client used to send the alerts
+ */
+export function initStuckAlerts(client: Client): void {
+  onClassroomRegistered((classroom) => {
+    if (classroom.activeLabSession) {
+      scheduleAlert(client, classroom, classroom.activeLabSession);
+    }
+    classroom.on("lab-started", (lab: LabSession) =>
+      scheduleAlert(client, classroom, lab),
+    );
+    classroom.on("lab-completed", (_: Student, lab: LabSession) => {
+      if (lab === classroom.activeLabSession && lab.alertShare) {
+        const share =
+          (classroom.countCompletions(lab.id) / classroom.students.size) * 100;
+        if (share >= lab.alertShare) {
+          sendAlert(client, classroom, lab);
+        }
+      }
+    });
+    classroom.on("lab-ended", (lab: LabSession) => {
+      clearTimeout(timers.get(lab.id));
+      timers.delete(lab.id);
+    });
+  });
+}
+
+/**
+ * Schedules the time-based alert of a lab, unless staff were already alerted
+ *
+ * @param client - The Discord client
+ * @param classroom - The classroom running the lab
+ * @param lab - The lab to schedule
+ */
+function scheduleAlert(
+  client: Client,
+  classroom: Classroom,
+  lab: LabSession,
+): void {
+  if (!lab.alertAfter || lab.alertSentAt) {
+    return;
+  }
+
+  const delay =
+    lab.startTime.getTime() + lab.alertAfter * 60 * 1000 - Date.now();
+  timers.set(
+    lab.id,
+    setTimeout(
+      () => {
+        timers.delete(lab.id);
+        if (lab === classroom.activeLabSession) {
+          sendAlert(client, classroom, lab);
+        }
+      },
+      Math.max(0, delay),
+    ),
+  );
+}
+
+/**
+ * Sends every staff member of a classroom the students still working on a lab, by group
+ * Does nothing if staff were already alerted or everyone has completed the lab
+ *
+ * @param client - The Discord client
+ * @param classroom - The classroom running the lab
+ * @param lab - The lab to alert about
+ */
+async function sendAlert(
+  client: Client,
+  classroom: Classroom,
+  lab: LabSession,
+): Promise<void> {
+  const remaining = getRemainingStudents(classroom, lab);
+  if (remaining.length === 0 || !classroom.markStuckAlertSent(lab.id)) {
+    return;
+  }
+
+  const completed = classroom.countCompletions(lab.id);
+  const total = classroom.students.size;
+  const embed = new EmbedBuilder()
+    .setTitle(`Still working: ${lab.name}`)
+    .setDescription(
+      `${completed}/${total} students (${Math.round((completed / total) * 100) || 0}%) of ${classroom.name} have completed **${lab.name}** after ${formatDuration(Date.now() - lab.startTime.getTime())}. ` +
+        `These ${remaining.length} student${remaining.length !== 1 ? "s have" : " has"} not completed it yet.`,
+    )
+    .setColor("#FFA500")
+    .setTimestamp();
+
+  // List students by group, with those without a group last
+  for (let group = 1; group <= classroom.groups + 1; group++) {
+    const inGroup = remaining.filter((student) =>
+      group > classroom.groups
+        ? student.group === undefined
+        : student.group === group,
+    );
+    if (inGroup.length > 0) {
+      embed.addFields({
+        name: `${group > classroom.groups ? "No group" : classroom.getGroupName(group)} (${inGroup.length})`,
+        value: formatList(
+          inGroup.map((student) => `- ${student.name}`),
+          1024,
+        ),
+      });
+    }
+  }
+
+  const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`stuck_ping:${lab.id}:${classroom.id}`)
+      .setLabel("Ping them")
+      .setEmoji("👋")
+      .setStyle(ButtonStyle.Primary),
+  );
+
+  const staffIds = classroom.getStaffIds();
+  for (const staffId of staffIds) {
+    try {
+      await client.users.send(staffId, { embeds: [embed], components: [row] });
+    } catch (error) {
+      logger.system(
+        `Failed to send stuck alert of "${lab.name}" to ${staffId}: %O`,
+        error,
+      );
+    }
+  }
+
+  logger.system(
+    `Alerted ${staffIds.length} staff member(s) to ${remaining.length} student(s) still working on "${lab.name}"`,
+  );
+}
+
+/**
+ * Handles the "Ping them" button of a stuck alert
+ * Posts a nudge in the classroom thread that mentions only the students still working
+ *
+ * @param interaction - The button interaction
+ * @param params - The lab ID and thread ID from the customId
+ */
+export async function handleStuckPingButton(
+  interaction: ButtonInteraction,
+  params: string[],
+) {
+  const [labId, threadId] = params;
+  const classroom = classrooms.get(threadId);
+
+  if (!classroom) {
+    logger.interaction(`Classroom not found for thread ID: ${threadId}`);
+    return await interaction.reply({
+      content: "This classroom no longer exists.",
+      flags: "Ephemeral",
+    });
+  }
+
+  if (!hasClassroomRole(interaction, classroom, "ta")) {
+    logger.interaction(
+      `${interaction.user.tag} attempted to ping students without permission`,
+    );
+    return await interaction.reply({
+      content: getPermissionDeniedMessage("ta"),
+      flags: "Ephemeral",
+    });
+  }
+
+  const lab = classroom.activeLabSession;
+  if (!lab || lab.id !== labId) {
+    return await interaction.reply({
+      content: "This lab has already ended.",
+      flags: "Ephemeral",
+    });
+  }
+
+  // Students may have completed the lab since the alert was sent
+  const remaining = getRemainingStudents(classroom, lab);
+  if (remaining.length === 0) {
+    return await interaction.reply({
+      content: "Everyone has completed the lab by now.",
+      flags: "Ephemeral",
+    });
+  }
+
+  const thread = await interaction.client.channels.fetch(threadId);
+  if (!thread?.isThread()) {
+    throw new Error(`Classroom thread ${threadId} not found`);
+  }
+
+  for (let i = 0; i < remaining.length; i += MENTIONS_PER_MESSAGE) {
+    const mentioned = remaining.slice(i, i + MENTIONS_PER_MESSAGE);
+    await thread.send({
+      content:
+        (i === 0
+          ? `👋 Friendly reminder: there is still time to finish **${lab.name}**. If you are stuck, raise your hand and a TA will come by!\n`
+          : "") + mentioned.map((student) => `<@${student.id}>`).join(" "),
+      allowedMentions: { users: mentioned.map((student) => student.id) },
+    });
+  }
+
+  logger.interaction(
+    `${interaction.user.tag} pinged ${remaining.length} student(s) still working on "${lab.name}"`,
+  );
+  await interaction.update({
+    components: [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(`stuck_ping:${labId}:${threadId}`)
+          .setLabel(`Pinged ${remaining.length} students`)
+          .setEmoji("👋")
+          .setStyle(ButtonStyle.Secondary)
+          .setDisabled(true),
+      ),
+    ],
+  });
+}
+
+/**
+ * Lists the students who have not completed a lab
+ *
+ * @param classroom - The classroom running the lab
+ * @param lab - The lab
+ * @returns The students still working on the lab, in enrollment order
+ */
+function getRemainingStudents(
+  classroom: Classroom,
+  lab: LabSession,
+): Student[] {
+  return Array.from(classroom.students.values()).filter(
+    (student) => !student.completedLabs.has(lab.id),
+  );
+}
@@ -0,0 +1,58 @@
+import type { Classroom, LabSession } from "../models/classroom.js";
+
+/**
+ * Creates a description of which groups have completed a lab, for labs completed as a group
+ * Students without a group still complete the lab on their own and are counted separately
+ *
+ * @param classroom - The classroom the lab belongs to
+ * @param lab - The lab session to describe
+ * @returns The team completion description, or an empty string for individual labs
+ */
+export function createTeamCompletionDescription(
+  classroom: Classroom,
+  lab: LabSession,
+): string {
+  if (!lab.groupMode) {
+    return "";
+  }
+
+  const groups: number[] = [];
+  for (let group = 1; group <= classroom.groups; group++) {
+    if (classroom.getGroupMembers(group).length > 0) {
+      groups.push(group);
+    }
+  }
+  const completedGroups = groups.filter((group) =>
+    classroom.isGroupLabComplete(lab.id, group),
+  ).length;
+
+  let description = `**Team Completion:** ${completedGroups}/${groups.length} groups (${Math.round((completedGroups / groups.length) * 100) || 0}%)\n`;
+  description +=
+    lab.groupMode === "one"
+      ? "_One member completes the lab for their group_\n\n"
+      : "_Groups complete the lab once every member has_\n\n";
+
+  for (const group of groups) {
+    const members = classroom.getGroupMembers(group);
+    const completed = members.filter((member) =>
+      member.completedLabs.has(lab.id),
+    ).length;
+    const leaderId = classroom.groupLeaders.get(group);
+    const leader = leaderId
+      ? ` • 👑 ${classroom.getStudent(leaderId)?.name}`
+      : "";
+    description += `${completed === members.length ? "✅" : "⏳"} **${classroom.getGroupName(group)}:** ${completed}/${members.length} members${leader}\n`;
+  }
+
+  const ungrouped = classroom.students.filter(
+    (student) => student.group === undefined,
+  );
+  if (ungrouped.size > 0) {
+    const completed = ungrouped.filter((student) =>
+      student.completedLabs.has(lab.id),
+    ).size;
+    description += `**No group:** ${completed}/${ungrouped.size} students, completing on their own\n`;
+  }
+
+  return description;
+}